@@ -1,14 +1,22 @@
-import { Component, input, output, model, computed } from '@angular/core';
+import { Component, input, output, model, computed, signal, forwardRef } from '@angular/core';
 import { CommonModule, NgClass } from '@angular/common';
+import { ControlValueAccessor, NG_VALUE_ACCESSOR } from '@angular/forms';
 
 @Component({
   selector: 'app-checkbox',
   standalone: true,
   imports: [CommonModule, NgClass],
   templateUrl: './checkbox.component.html',
-  styleUrl: './checkbox.component.css'
+  styleUrl: './checkbox.component.css',
+  providers: [
+    {
+      provide: NG_VALUE_ACCESSOR,
+      useExisting: forwardRef(() => CheckboxComponent),
+      multi: true
+    }
+  ]
 })
-export class CheckboxComponent {
+export class CheckboxComponent implements ControlValueAccessor {
   // Inputs
   checked = model<boolean>(false); // Two-way binding
   label = input<string>();
@@ -22,10 +30,19 @@ export class CheckboxComponent {
   // Outputs
   changed = output<boolean>();
 
+  // Internal Signals
+  private formDisabled = signal<boolean>(false);
+
+  // Forms API callbacks
+  private onChange: (value: boolean) => void = () => {};
+  private onTouched: () => void = () => {};
+
   // Computed Properties
+  readonly isDisabled = computed(() => this.disabled() || this.formDisabled());
+
   readonly containerClasses = computed(() => {
     const classes: string[] = ['checkbox-container'];
-    if (this.disabled()) classes.push('checkbox-disabled');
+    if (this.isDisabled()) classes.push('checkbox-disabled');
     if (this.error()) classes.push('checkbox-error');
     return classes.join(' ');
   });
@@ -40,7 +57,7 @@ export class CheckboxComponent {
 
   // Methods
   onToggle(event: Event): void {
-    if (this.disabled()) {
+    if (this.isDisabled()) {
       event.preventDefault();
       return;
     }
@@ -48,16 +65,39 @@ export class CheckboxComponent {
     const newValue = !this.checked();
     this.checked.set(newValue);
     this.changed.emit(newValue);
+    this.onChange(newValue);
   }
 
   onKeyDown(event: KeyboardEvent): void {
-    if (this.disabled()) return;
+    if (this.isDisabled()) return;
 
     if (event.key === 'Enter' || event.key === ' ') {
       event.preventDefault();
       const newValue = !this.checked();
       this.checked.set(newValue);
       this.changed.emit(newValue);
+      this.onChange(newValue);
     }
   }
+
+  onBlur(): void {
+    this.onTouched();
+  }
+
+  // ControlValueAccessor
+  writeValue(value: boolean | null): void {
+    this.checked.set(!!value);
+  }
+
+  registerOnChange(fn: (value: boolean) => void): void {
+    this.onChange = fn;
+  }
+
+  registerOnTouched(fn: () => void): void {
+    this.onTouched = fn;
+  }
+
+  setDisabledState(isDisabled: boolean): void {
+    this.formDisabled.set(isDisabled);
+  }
 }
@@ -1,5 +1,6 @@
-import { Component, input, output, model, computed, signal, effect } from '@angular/core';
+import { Component, input, output, model, computed, signal, effect, forwardRef } from '@angular/core';
 import { CommonModule } from '@angular/common';
+import { ControlValueAccessor, NG_VALUE_ACCESSOR } from '@angular/forms';
 
 export type CurrencyInputState = 'default' | 'error' | 'success';
 
@@ -11,6 +12,7 @@ export type CurrencyInputState = 'default' | 'error' | 'success';
  * - Allows configurable currency symbol (default: 'kr')
  * - Stores raw numeric values internally
  * - Supports validation and error states
+ * - Works with reactive and template-driven forms (ControlValueAccessor)
  *
  * @example
  * ```html
@@ -28,9 +30,16 @@ export type CurrencyInputState = 'default' | 'error' | 'success';
   standalone: true,
   imports: [CommonModule],
   templateUrl: './currency-input.component.html',
-  styleUrl: './currency-input.component.css'
+  styleUrl: './currency-input.component.css',
+  providers: [
+    {
+      provide: NG_VALUE_ACCESSOR,
+      useExisting: forwardRef(() => CurrencyInputComponent),
+      multi: true
+    }
+  ]
 })
-export class CurrencyInputComponent {
+export class CurrencyInputComponent implements ControlValueAccessor {
   // Inputs
   /** The numeric value (two-way binding) */
   value = model<number | null>(null);
@@ -89,7 +98,17 @@ export class CurrencyInputComponent {
   /** Whether the input is currently focused */
   private isFocused = signal<boolean>(false);
 
+  /** Disabled state set through the forms API */
+  private formDisabled = signal<boolean>(false);
+
+  /** Forms API callbacks */
+  private onChange: (value: number | null) => void = () => {};
+  private onTouched: () => void = () => {};
+
   // Computed Properties
+  /** Disabled by input or by the bound form control */
+  readonly isDisabled = computed(() => this.disabled() || this.formDisabled());
+
   readonly state = computed<CurrencyInputState>(() => {
     if (this.error()) return 'error';
     if (this.value() !== null && !this.error()) return 'success';
@@ -98,7 +117,7 @@ export class CurrencyInputComponent {
 
   readonly containerClasses = computed(() => {
     const classes: string[] = ['currency-input-container'];
-    if (this.disabled()) classes.push('currency-input-disabled');
+    if (this.isDisabled()) classes.push('currency-input-disabled');
     if (this.readonly()) classes.push('currency-input-readonly');
     return classes.join(' ');
   });
@@ -223,6 +242,7 @@ export class CurrencyInputComponent {
     // Update the model value
     this.value.set(parsed);
     this.valueChange.emit(parsed);
+    this.onChange(parsed);
 
     // Update display with formatted value
     if (parsed !== null) {
@@ -231,6 +251,7 @@ export class CurrencyInputComponent {
       this.displayValue.set('');
     }
 
+    this.onTouched();
     this.blurred.emit();
   }
 
@@ -240,4 +261,22 @@ export class CurrencyInputComponent {
   getDisplayValue(): string {
     return this.displayValue();
   }
+
+  // ControlValueAccessor
+
+  writeValue(value: number | null): void {
+    this.value.set(value ?? null);
+  }
+
+  registerOnChange(fn: (value: number | null) => void): void {
+    this.onChange = fn;
+  }
+
+  registerOnTouched(fn: () => void): void {
+    this.onTouched = fn;
+  }
+
+  setDisabledState(isDisabled: boolean): void {
+    this.formDisabled.set(isDisabled);
+  }
 }
@@ -0,0 +1,108 @@
+import { Directive, TemplateRef, inject, input } from '@angular/core';
+import type { TableColumn } from './data-table.component';
+
+/**
+ * Template context for a custom cell
+ */
+export interface TableCellContext<T = any> {
+  /** Raw cell value */
+  $implicit: any;
+  /** Row data */
+  row: T;
+  /** Column definition */
+  column: TableColumn<T>;
+  /** Row index within the current page */
+  index: number;
+}
+
+/**
+ * Template context for a custom column header
+ */
+export interface TableHeaderContext<T = any> {
+  /** Column definition */
+  $implicit: TableColumn<T>;
+}
+
+/**
+ * Custom cell template for a column, matched by column key
+ *
+ * @example
+ * ```html
+ * <app-data-table [data]="loans()" [columns]="columns">
+ *   <ng-template appTableCell="status" let-status let-row="row">
+ *     <span class="badge" [class.badge-success]="status === 'approved'">{{ status }}</span>
+ *   </ng-template>
+ * </app-data-table>
+ * ```
+ */
+@Directive({
+  selector: 'ng-template[appTableCell]',
+  standalone: true
+})
+export class TableCellTemplateDirective<T = any> {
+  /** Key of the column this template renders */
+  columnKey = input.required<string>({ alias: 'appTableCell' });
+
+  readonly templateRef = inject<TemplateRef<TableCellContext<T>>>(TemplateRef);
+
+  static ngTemplateContextGuard<T>(dir: TableCellTemplateDirective<T>, ctx: unknown): ctx is TableCellContext<T> {
+    return true;
+  }
+}
+
+/**
+ * Custom header template for a column, matched by column key
+ *
+ * @example
+ * ```html
+ * <ng-template appTableHeader="balance" let-column>
+ *   {{ column.label }} <small>(NOK)</small>
+ * </ng-template>
+ * ```
+ */
+@Directive({
+  selector: 'ng-template[appTableHeader]',
+  standalone: true
+})
+export class TableHeaderTemplateDirective<T = any> {
+  /** Key of the column this template renders */
+  columnKey = input.required<string>({ alias: 'appTableHeader' });
+
+  readonly templateRef = inject<TemplateRef<TableHeaderContext<T>>>(TemplateRef);
+
+  static ngTemplateContextGuard<T>(dir: TableHeaderTemplateDirective<T>, ctx: unknown): ctx is TableHeaderContext<T> {
+    return true;
+  }
+}
+
+/**
+ * Template context for an expanded detail row
+ */
+export interface TableDetailContext<T = any> {
+  /** Row data */
+  $implicit: T;
+  /** Row index within the current page */
+  index: number;
+}
+
+/**
+ * Detail template rendered below an expanded row, spanning all columns
+ *
+ * @example
+ * ```html
+ * <ng-template appTableDetail let-customer>
+ *   <app-data-table [data]="customer.loans" [columns]="loanColumns"></app-data-table>
+ * </ng-template>
+ * ```
+ */
+@Directive({
+  selector: 'ng-template[appTableDetail]',
+  standalone: true
+})
+export class TableDetailTemplateDirective<T = any> {
+  readonly templateRef = inject<TemplateRef<TableDetailContext<T>>>(TemplateRef);
+
+  static ngTemplateContextGuard<T>(dir: TableDetailTemplateDirective<T>, ctx: unknown): ctx is TableDetailContext<T> {
+    return true;
+  }
+}
@@ -0,0 +1,301 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { DataTableComponent, TableColumn, TableExportOptions } from './data-table.component';
+
+interface Loan {
+  id: number;
+  customer: string;
+  amount: number | null;
+}
+
+describe('DataTableComponent', () => {
+  let component: DataTableComponent<Loan>;
+  let fixture: ComponentFixture<DataTableComponent<Loan>>;
+
+  const columns: TableColumn<Loan>[] = [
+    { key: 'customer', label: 'Customer', sortable: true, filterable: true },
+    { key: 'amount', label: 'Amount', sortable: true }
+  ];
+
+  const createLoans = (count: number): Loan[] =>
+    Array.from({ length: count }, (_, index) => ({ id: index + 1, customer: `Customer ${index + 1}`, amount: index * 1000 }));
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [DataTableComponent]
+    }).compileComponents();
+
+    fixture = TestBed.createComponent<DataTableComponent<Loan>>(DataTableComponent);
+    component = fixture.componentInstance;
+    fixture.componentRef.setInput('columns', columns);
+    fixture.componentRef.setInput('data', createLoans(25));
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  describe('empty and loading states', () => {
+    it('should show the empty state for an empty client dataset', () => {
+      fixture.componentRef.setInput('data', []);
+      fixture.detectChanges();
+
+      expect(fixture.nativeElement.querySelector('.table-empty')).toBeTruthy();
+      expect(fixture.nativeElement.querySelector('table')).toBeNull();
+    });
+
+    it('should keep the filters when a remote filter matches nothing', () => {
+      fixture.componentRef.setInput('mode', 'remote');
+      component.setFilter(columns[0], { type: 'text', value: 'nobody' });
+      fixture.componentRef.setInput('data', []);
+      fixture.componentRef.setInput('totalCount', 0);
+      fixture.detectChanges();
+
+      expect(fixture.nativeElement.querySelector('.table-empty')).toBeNull();
+      expect(fixture.nativeElement.querySelector('.filter-row')).toBeTruthy();
+      expect(fixture.nativeElement.querySelector('.filter-chip')).toBeTruthy();
+      expect(fixture.nativeElement.querySelector('.no-matches-row').textContent.trim())
+        .toBe('No rows match the active filters');
+    });
+
+    it('should show loading as an overlay without replacing the table', () => {
+      const filterInput = fixture.nativeElement.querySelector('.filter-row input');
+
+      fixture.componentRef.setInput('loading', true);
+      fixture.detectChanges();
+
+      expect(fixture.nativeElement.querySelector('.table-loading-overlay')).toBeTruthy();
+      expect(fixture.nativeElement.querySelector('.filter-row input')).toBe(filterInput);
+      expect(fixture.nativeElement.querySelector('table').getAttribute('aria-busy')).toBe('true');
+    });
+  });
+
+  describe('sorting', () => {
+    const loans: Loan[] = [
+      { id: 1, customer: 'Berg', amount: 300 },
+      { id: 2, customer: 'Aas', amount: 100 },
+      { id: 3, customer: 'Berg', amount: 100 },
+      { id: 4, customer: 'Aas', amount: null }
+    ];
+
+    const ids = () => component.sortedData().map(loan => loan.id);
+    const click = (index: number, shiftKey = false) =>
+      component.onColumnClick(columns[index], new MouseEvent('click', { shiftKey }));
+
+    beforeEach(() => {
+      fixture.componentRef.setInput('data', loans);
+      fixture.detectChanges();
+    });
+
+    it('should cycle a column through ascending, descending and unsorted', () => {
+      click(1);
+      expect(component.sortState()).toEqual({ column: 'amount', direction: 'asc' });
+      expect(ids()).toEqual([2, 3, 1, 4]);
+
+      click(1);
+      expect(component.sortState()).toEqual({ column: 'amount', direction: 'desc' });
+      expect(ids()).toEqual([1, 2, 3, 4]);
+
+      click(1);
+      expect(component.sortStates()).toEqual([]);
+      expect(ids()).toEqual([1, 2, 3, 4]);
+    });
+
+    it('should add shift-clicked columns as lower sort levels', () => {
+      spyOn(component.multiSortChange, 'emit');
+
+      click(0);
+      click(1, true);
+
+      expect(component.sortStates()).toEqual([
+        { column: 'customer', direction: 'asc' },
+        { column: 'amount', direction: 'asc' }
+      ]);
+      expect(component.getSortOrder(columns[0])).toBe(1);
+      expect(component.getSortOrder(columns[1])).toBe(2);
+      expect(ids()).toEqual([2, 4, 3, 1]);
+      expect(component.multiSortChange.emit).toHaveBeenCalledWith(component.sortStates());
+    });
+
+    it('should make a plain-clicked secondary column the only sort', () => {
+      click(0);
+      click(1, true);
+      click(1);
+
+      expect(component.sortStates()).toEqual([{ column: 'amount', direction: 'asc' }]);
+    });
+
+    it('should apply sorts set programmatically', () => {
+      component.sortStates.set([
+        { column: 'customer', direction: 'desc' },
+        { column: 'amount', direction: 'desc' }
+      ]);
+      expect(ids()).toEqual([1, 3, 2, 4]);
+
+      component.sortState.set({ column: 'amount', direction: 'asc' });
+      fixture.detectChanges();
+
+      expect(component.sortStates()).toEqual([{ column: 'amount', direction: 'asc' }]);
+      expect(ids()).toEqual([2, 3, 1, 4]);
+    });
+
+    it('should order strings with the sortLocale collator', () => {
+      fixture.componentRef.setInput('data', [
+        { id: 1, customer: 'Åse', amount: 0 },
+        { id: 2, customer: 'Øyvind', amount: 0 },
+        { id: 3, customer: 'Ærlig', amount: 0 },
+        { id: 4, customer: 'Zeta', amount: 0 }
+      ]);
+      fixture.componentRef.setInput('sortLocale', 'nb');
+      component.sortStates.set([{ column: 'customer', direction: 'asc' }]);
+
+      expect(ids()).toEqual([4, 3, 2, 1]);
+    });
+
+    it('should compare digits in strings numerically', () => {
+      fixture.componentRef.setInput('data', [
+        { id: 1, customer: 'Customer 10', amount: 0 },
+        { id: 2, customer: 'Customer 2', amount: 0 }
+      ]);
+      component.sortStates.set([{ column: 'customer', direction: 'asc' }]);
+
+      expect(ids()).toEqual([2, 1]);
+    });
+  });
+
+  describe('filtering', () => {
+    it('should match text filters case-insensitively', () => {
+      component.setFilter(columns[0], { type: 'text', value: ' customer 2' });
+
+      expect(component.filteredData().map(loan => loan.id)).toEqual([2, 20, 21, 22, 23, 24, 25]);
+    });
+
+    it('should match number ranges inclusively', () => {
+      component.setFilter(columns[1], { type: 'number', min: 3000, max: 5000 });
+
+      expect(component.filteredData().map(loan => loan.id)).toEqual([4, 5, 6]);
+    });
+
+    it('should emit filter changes and reset to the first page', () => {
+      spyOn(component.filterChange, 'emit');
+      spyOn(component.pageChange, 'emit');
+      fixture.componentRef.setInput('currentPage', 2);
+      fixture.detectChanges();
+
+      component.setFilter(columns[0], { type: 'text', value: 'customer' });
+
+      expect(component.filterChange.emit).toHaveBeenCalledWith({ customer: { type: 'text', value: 'customer' } });
+      expect(component.pageIndex()).toBe(0);
+      expect(component.pageChange.emit).toHaveBeenCalledWith(0);
+    });
+
+    it('should drop empty filters', () => {
+      component.setFilter(columns[0], { type: 'text', value: 'customer' });
+      component.setFilter(columns[0], { type: 'text', value: '  ' });
+
+      expect(component.filterState()).toEqual({});
+      expect(component.filteredData().length).toBe(25);
+    });
+
+    it('should clear every filter', () => {
+      component.setFilter(columns[0], { type: 'text', value: 'customer 1' });
+      component.setFilter(columns[1], { type: 'number', max: 0 });
+
+      component.clearAllFilters();
+
+      expect(component.filterState()).toEqual({});
+      expect(component.filteredData().length).toBe(25);
+    });
+  });
+
+  describe('export', () => {
+    const exportLines = (loans: Loan[], options: TableExportOptions = {}) => {
+      fixture.componentRef.setInput('data', loans);
+      fixture.detectChanges();
+      return component.getExportContent(options).split('\r\n');
+    };
+
+    it('should export a header and the visible rows', () => {
+      expect(exportLines(createLoans(2))).toEqual(['Customer,Amount', 'Customer 1,0', 'Customer 2,1000']);
+    });
+
+    it('should prefix values a spreadsheet would run as a formula', () => {
+      const lines = exportLines([
+        { id: 1, customer: '=SUM(A1:A9)', amount: null },
+        { id: 2, customer: '@cmd', amount: null },
+        { id: 3, customer: '-1+1', amount: null }
+      ]);
+
+      expect(lines.slice(1)).toEqual([`'=SUM(A1:A9),`, `'@cmd,`, `'-1+1,`]);
+    });
+
+    it('should leave signed numbers unescaped', () => {
+      const lines = exportLines([
+        { id: 1, customer: '+4712345678', amount: -42.5 },
+        { id: 2, customer: '-1e3', amount: 1000 }
+      ]);
+
+      expect(lines.slice(1)).toEqual(['+4712345678,-42.5', '-1e3,1000']);
+    });
+
+    it('should keep formulas when escaping is disabled', () => {
+      const lines = exportLines([{ id: 1, customer: '=SUM(A1:A9)', amount: 1 }], { escapeFormulas: false });
+
+      expect(lines[1]).toBe('=SUM(A1:A9),1');
+    });
+
+    it('should quote CSV fields with delimiters or quotes', () => {
+      const lines = exportLines([
+        { id: 1, customer: 'Doe, Jane', amount: 1 },
+        { id: 2, customer: 'Say "hi"', amount: 2 }
+      ]);
+
+      expect(lines.slice(1)).toEqual(['"Doe, Jane",1', '"Say ""hi""",2']);
+    });
+
+    it('should flatten tabs and line breaks in TSV', () => {
+      const lines = exportLines([{ id: 1, customer: 'Doe\tJane\nJr', amount: 1 }], { format: 'tsv' });
+
+      expect(lines).toEqual(['Customer\tAmount', 'Doe Jane Jr\t1']);
+    });
+  });
+
+  describe('pagination', () => {
+    it('should list every page when there are few', () => {
+      expect(component.pages()).toEqual([0, 1, 2]);
+    });
+
+    it('should window long remote page lists around the current page', () => {
+      fixture.componentRef.setInput('mode', 'remote');
+      fixture.componentRef.setInput('data', createLoans(10));
+      fixture.componentRef.setInput('totalCount', 100_000);
+      fixture.componentRef.setInput('currentPage', 500);
+      fixture.detectChanges();
+
+      expect(component.pages()).toEqual([0, null, 498, 499, 500, 501, 502, null, 9999]);
+
+      const buttons = fixture.nativeElement.querySelectorAll('.pagination-page');
+      const ellipses = fixture.nativeElement.querySelectorAll('.pagination-ellipsis');
+      expect(buttons.length).toBe(7);
+      expect(ellipses.length).toBe(2);
+      expect(fixture.nativeElement.querySelector('.pagination-page.active').textContent.trim()).toBe('501');
+    });
+
+    it('should show a page instead of an ellipsis that would hide only that page', () => {
+      fixture.componentRef.setInput('data', createLoans(100));
+      fixture.componentRef.setInput('currentPage', 3);
+      fixture.detectChanges();
+
+      expect(component.pages()).toEqual([0, 1, 2, 3, 4, 5, null, 9]);
+    });
+
+    it('should emit the clicked page', () => {
+      spyOn(component.pageChange, 'emit');
+      const buttons = fixture.nativeElement.querySelectorAll('.pagination-page');
+
+      buttons[2].click();
+
+      expect(component.pageChange.emit).toHaveBeenCalledWith(2);
+    });
+  });
+});
@@ -1,5 +1,14 @@
-import { Component, signal, input, output, computed } from '@angular/core';
+import { Component, OnDestroy, signal, input, output, model, computed, effect, untracked, linkedSignal, inject, LOCALE_ID, ElementRef, ViewChild, ContentChild, ContentChildren, QueryList, TemplateRef } from '@angular/core';
 import { CommonModule } from '@angular/common';
+import { IconButtonComponent, type IconButtonVariant } from '../icon-button/icon-button.component';
+import {
+  TableCellTemplateDirective,
+  TableHeaderTemplateDirective,
+  TableDetailTemplateDirective,
+  type TableCellContext,
+  type TableHeaderContext,
+  type TableDetailContext
+} from './data-table-template.directive';
 
 /**
  * Column definition for the data table
@@ -7,10 +16,81 @@ import { CommonModule } from '@angular/common';
 export interface TableColumn<T = any> {
   key: string;
   label: string;
+  /** Column type (default: 'data') */
+  type?: TableColumnType;
+  /** Row actions (for 'actions' columns) */
+  actions?: TableRowAction<T>[];
   sortable?: boolean;
   width?: string;
+  /** Minimum width in px when resizing (default: 48) */
+  minWidth?: number;
+  /** Hidden until shown from the column chooser */
+  hidden?: boolean;
+  /** Can be hidden from the column chooser (default: true) */
+  hideable?: boolean;
+  /** Can be resized when the table is resizable (default: true) */
+  resizable?: boolean;
   align?: 'left' | 'center' | 'right';
   formatter?: (value: any, row: T) => string;
+  /** Custom sort comparator for non-null cell values (ascending order) */
+  compare?: (a: any, b: any, rowA: T, rowB: T) => number;
+  /** Show a filter control for this column */
+  filterable?: boolean;
+  /** Filter kind (default: 'text') */
+  filterType?: TableFilterType;
+  /** Options for 'set' filters (default: distinct column values) */
+  filterOptions?: { label: string; value: any }[];
+}
+
+/**
+ * Filter kinds
+ * - text: case-insensitive "contains"
+ * - number: inclusive numeric range
+ * - date: inclusive date range (ISO `YYYY-MM-DD` bounds)
+ * - set: value is one of the selected values
+ */
+export type TableFilterType = 'text' | 'number' | 'date' | 'set';
+
+/**
+ * Active filter value for a column
+ */
+export type TableFilterValue =
+  | { type: 'text'; value: string }
+  | { type: 'number'; min?: number; max?: number }
+  | { type: 'date'; from?: string; to?: string }
+  | { type: 'set'; values: any[] };
+
+/**
+ * Active filters, keyed by column key
+ */
+export type TableFilters = Record<string, TableFilterValue>;
+
+/**
+ * Column type
+ * - data: renders the cell value (or a custom cell template)
+ * - actions: renders a row of icon buttons
+ */
+export type TableColumnType = 'data' | 'actions';
+
+/**
+ * Row action rendered as an icon button in an 'actions' column
+ */
+export interface TableRowAction<T = any> {
+  id: string;
+  icon: string;
+  /** Accessible label and tooltip */
+  label: string;
+  variant?: IconButtonVariant;
+  disabled?: (row: T) => boolean;
+  hidden?: (row: T) => boolean;
+}
+
+/**
+ * Row action event data
+ */
+export interface TableRowActionEvent<T = any> {
+  action: string;
+  row: T;
 }
 
 /**
@@ -26,6 +106,143 @@ export interface SortState {
   direction: SortDirection;
 }
 
+/**
+ * Where null/undefined/empty values are placed when sorting
+ */
+export type NullsPosition = 'first' | 'last';
+
+/**
+ * Rows rendered above and below the visible window when virtual scrolling
+ */
+const VIRTUAL_OVERSCAN = 6;
+
+/**
+ * ISO 8601 date or date-time strings (sorted chronologically)
+ */
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}/;
+
+/**
+ * Data mode
+ * - client: sorts and paginates `data` in memory
+ * - remote: renders `data` as the current page; sorting and paging are delegated via `queryChange`
+ */
+export type TableDataMode = 'client' | 'remote';
+
+/**
+ * Combined query state for a remote data source
+ */
+export interface TableQuery {
+  page: number;
+  pageSize: number;
+  /** Primary sort */
+  sort: SortState;
+  /** All active sorts, in priority order */
+  sorts: SortState[];
+  filters: TableFilters;
+}
+
+/**
+ * Result a remote data source returns for a TableQuery
+ */
+export interface TableQueryResult<T = any> {
+  rows: T[];
+  totalCount: number;
+}
+
+/**
+ * Unique row id
+ */
+export type TableRowId = string | number;
+
+/**
+ * Row identity: a field name or a function returning a unique id
+ */
+export type TableRowKey<T = any> = string | ((row: T) => TableRowId);
+
+/**
+ * Key stored in `selectedKeys`: the row id, or the row itself when no `rowKey` is set
+ */
+export type TableSelectionKey<T = any> = TableRowId | T;
+
+/**
+ * Expansion mode
+ * - single: expanding a row collapses the previously expanded row
+ * - multiple: any number of rows can be expanded
+ */
+export type TableExpandMode = 'single' | 'multiple';
+
+/**
+ * User-adjustable column layout. Plain JSON, so it can be persisted per user
+ * (localStorage, backend) and passed back in through the `layout` input.
+ */
+export interface TableLayoutState {
+  /** Column keys in display order */
+  order: string[];
+  /** Keys of hidden columns */
+  hidden: string[];
+  /** Column widths in px, keyed by column key */
+  widths: Record<string, number>;
+}
+
+/**
+ * Export formats
+ * - csv: delimiter-separated values with RFC 4180 quoting
+ * - tsv: tab-separated values for pasting into spreadsheets
+ */
+export type TableExportFormat = 'csv' | 'tsv';
+
+/**
+ * Export options
+ */
+export interface TableExportOptions {
+  /** Output format (default: 'csv') */
+  format?: TableExportFormat;
+  /** CSV field delimiter (default: ',') */
+  delimiter?: string;
+  /** Prepend a UTF-8 byte order mark so Excel detects the encoding (default: true for downloads) */
+  bom?: boolean;
+  /** Use `formatter` output or raw cell values (default: 'formatted') */
+  values?: 'formatted' | 'raw';
+  /** Export only the selected rows */
+  selectedOnly?: boolean;
+  /** Include a header row with column labels (default: true) */
+  includeHeader?: boolean;
+  /** Download file name without extension (default: 'export') */
+  filename?: string;
+  /** Prefix values that a spreadsheet would run as a formula with `'` (default: true) */
+  escapeFormulas?: boolean;
+}
+
+/**
+ * Leading characters that make spreadsheets evaluate a cell as a formula
+ */
+const FORMULA_TRIGGER = /^[=+\-@\t\r]/;
+
+/**
+ * Plain numbers (e.g. negative amounts) are left untouched by formula escaping
+ */
+const NUMERIC_VALUE = /^[-+]?[\d.,]+(e[-+]?\d+)?$/i;
+
+/**
+ * Default minimum column width in px when resizing
+ */
+const MIN_COLUMN_WIDTH = 48;
+
+/**
+ * Column width step in px for keyboard resizing
+ */
+const RESIZE_STEP = 16;
+
+/**
+ * Delay in ms before a typed text filter is applied in remote mode
+ */
+const TEXT_FILTER_DEBOUNCE = 300;
+
+/**
+ * Page buttons shown on each side of the current page; the rest collapse into ellipses
+ */
+const PAGE_WINDOW = 2;
+
 /**
  * Table configuration
  */
@@ -43,6 +260,29 @@ export interface TableConfig {
  * A professional, feature-rich table component with sorting, filtering, pagination,
  * and row selection. Built with Angular Signals and modern best practices.
  *
+ * In `remote` mode the table renders `data` as-is and emits a `queryChange`
+ * event (page, pageSize, sort, filters) for a server-side data source to answer.
+ *
+ * With `virtualScroll` enabled only the rows in view are kept in the DOM, so
+ * tens of thousands of rows stay responsive. Rows must have a fixed height.
+ *
+ * Cells and headers can be customised per column key with `appTableCell` and
+ * `appTableHeader` templates, and an `actions` column renders icon buttons
+ * that emit `rowAction`.
+ *
+ * With `expandable` enabled each row gets a toggle that reveals the projected
+ * `appTableDetail` template in a full-width row below it.
+ *
+ * Columns can be shown/hidden (`columnChooser`), reordered (`reorderable`) and
+ * resized (`resizable`). The resulting `TableLayoutState` is two-way bound
+ * through `layout` so it can be persisted.
+ *
+ * The current view (sort, filters, visible columns) can be exported to CSV/TSV
+ * with `exportData()`, `copyToClipboard()` or the optional toolbar button.
+ *
+ * Selection and expansion are keyed by `rowKey`, so they survive refetches
+ * that re-create row objects, and selection persists across pages.
+ *
  * @example
  * ```html
  * <app-data-table
@@ -58,11 +298,11 @@ export interface TableConfig {
 @Component({
   selector: 'app-data-table',
   standalone: true,
-  imports: [CommonModule],
+  imports: [CommonModule, IconButtonComponent],
   templateUrl: './data-table.component.html',
   styleUrl: './data-table.component.css'
 })
-export class DataTableComponent<T = any> {
+export class DataTableComponent<T = any> implements OnDestroy {
   // ========================================
   // Inputs
   // ========================================
@@ -91,9 +331,18 @@ export class DataTableComponent<T = any> {
   /** Enable row selection */
   selectable = input<boolean>(false);
 
-  /** Selected rows */
+  /** Row identity for selection and expansion (default: object reference) */
+  rowKey = input<TableRowKey<T> | null>(null);
+
+  /** Selected rows (synced into `selectedKeys`) */
   selectedRows = input<T[]>([]);
 
+  /** Selected row ids, or rows without `rowKey` (two-way binding) */
+  selectedKeys = model<TableSelectionKey<T>[]>([]);
+
+  /** All rows matching the current filters are selected, including unloaded pages (two-way binding; remote mode) */
+  allMatchingSelected = model<boolean>(false);
+
   /** Empty state message */
   emptyMessage = input<string>('No data available');
 
@@ -103,6 +352,54 @@ export class DataTableComponent<T = any> {
   /** Current page (0-indexed) */
   currentPage = input<number>(0);
 
+  /** Locale for string sorting (default: the app's `LOCALE_ID`) */
+  sortLocale = input<string>(inject(LOCALE_ID));
+
+  /** Placement of empty values when sorting, regardless of direction */
+  nullsPosition = input<NullsPosition>('last');
+
+  /** Data mode (client-side or remote) */
+  mode = input<TableDataMode>('client');
+
+  /** Total number of rows on the server (remote mode) */
+  totalCount = input<number>(0);
+
+  /** Render only visible rows (requires fixed row height) */
+  virtualScroll = input<boolean>(false);
+
+  /** Row height in px (virtual scrolling) */
+  rowHeight = input<number>(48);
+
+  /** Scroll viewport height in px (virtual scrolling) */
+  viewportHeight = input<number>(600);
+
+  /** Show an expand toggle and detail row for each row (not available with virtual scrolling) */
+  expandable = input<boolean>(false);
+
+  /** Allow one or many expanded rows */
+  expandMode = input<TableExpandMode>('multiple');
+
+  /** Expanded rows (two-way binding) */
+  expandedRows = model<T[]>([]);
+
+  /** Show the column chooser menu */
+  columnChooser = input<boolean>(false);
+
+  /** Allow reordering columns by dragging headers */
+  reorderable = input<boolean>(false);
+
+  /** Allow resizing columns by dragging header edges */
+  resizable = input<boolean>(false);
+
+  /** Column layout (two-way binding; null = column definition defaults) */
+  layout = model<TableLayoutState | null>(null);
+
+  /** Show the export button */
+  exportable = input<boolean>(false);
+
+  /** Options used by the export button */
+  exportOptions = input<TableExportOptions>({});
+
   // ========================================
   // Outputs
   // ========================================
@@ -110,46 +407,267 @@ export class DataTableComponent<T = any> {
   /** Emitted when a row is clicked */
   rowClick = output<T>();
 
-  /** Emitted when sort changes */
+  /** Emitted when sort changes (primary sort) */
   sortChange = output<SortState>();
 
+  /** Emitted when sort changes (all sorts, in priority order) */
+  multiSortChange = output<SortState[]>();
+
   /** Emitted when selection changes */
   selectionChange = output<T[]>();
 
   /** Emitted when page changes */
   pageChange = output<number>();
 
+  /** Emitted when column filters change */
+  filterChange = output<TableFilters>();
+
+  /** Emitted when the combined query changes (remote mode) */
+  queryChange = output<TableQuery>();
+
+  /** Emitted when a row action button is clicked */
+  rowAction = output<TableRowActionEvent<T>>();
+
+  // ========================================
+  // Content Children
+  // ========================================
+
+  /** Custom cell templates */
+  @ContentChildren(TableCellTemplateDirective) cellTemplates?: QueryList<TableCellTemplateDirective<T>>;
+
+  /** Custom header templates */
+  @ContentChildren(TableHeaderTemplateDirective) headerTemplates?: QueryList<TableHeaderTemplateDirective<T>>;
+
+  /** Detail template for expanded rows */
+  @ContentChild(TableDetailTemplateDirective) detailTemplate?: TableDetailTemplateDirective<T>;
+
   // ========================================
   // Internal State
   // ========================================
 
-  /** Current sort state */
-  readonly sortState = signal<SortState>({ column: '', direction: null });
+  /** Active sorts, in priority order */
+  readonly sortStates = signal<SortState[]>([]);
+
+  /**
+   * Page shown (0-indexed). Follows `currentPage`, but resets to 0 together with
+   * sort and filter changes so a remote query is emitted once per change.
+   */
+  readonly pageIndex = linkedSignal(() => this.currentPage());
+
+  /** Selected rows seen so far, for emitting rows from other pages */
+  private readonly knownRows = new Map<TableSelectionKey<T>, T>();
+
+  /** Pending text filter updates, keyed by column key (remote mode) */
+  private readonly textFilterTimers = new Map<string, ReturnType<typeof setTimeout>>();
+
+  /** Active column filters, keyed by column key */
+  readonly filterState = signal<TableFilters>({});
+
+  /** Scroll offset of the viewport (virtual scrolling) */
+  readonly scrollTop = signal<number>(0);
+
+  /** Keyboard-active row index within the current page (virtual scrolling) */
+  readonly activeRowIndex = signal<number>(-1);
+
+  /** Key of the header being dragged (reordering) */
+  readonly draggedColumn = signal<string | null>(null);
+
+  /** Key of the header under the dragged header (reordering) */
+  readonly dropTargetColumn = signal<string | null>(null);
 
-  /** Internal selected rows */
-  readonly internalSelection = signal<Set<T>>(new Set());
+  /** Column being resized and its current width */
+  readonly resizing = signal<{ key: string; width: number } | null>(null);
+
+  /** Pointer position and width when resizing started */
+  private resizeStart = { x: 0, width: 0 };
+
+  /** Unique id prefix for row elements */
+  readonly tableId = `data-table-${Math.random().toString(36).substr(2, 9)}`;
+
+  // ========================================
+  // View References
+  // ========================================
+
+  @ViewChild('scrollContainer') scrollContainer?: ElementRef<HTMLElement>;
 
   // ========================================
   // Computed Properties
   // ========================================
 
+  /**
+   * Current (primary) sort state. Follows `sortStates`; setting it replaces
+   * all sorts with this one.
+   */
+  readonly sortState = linkedSignal<SortState>(() => {
+    return this.sortStates()[0] ?? { column: '', direction: null };
+  });
+
+  /** Collator for locale-aware string sorting */
+  readonly collator = computed(() => {
+    return new Intl.Collator(this.sortLocale(), { numeric: true, sensitivity: 'base' });
+  });
+
+  /** Is remote mode */
+  readonly isRemote = computed(() => this.mode() === 'remote');
+
+  /** Current query state */
+  readonly query = computed<TableQuery>(() => ({
+    page: this.pageIndex(),
+    pageSize: this.pageSize(),
+    sort: this.sortState(),
+    sorts: this.sortStates(),
+    filters: this.filterState()
+  }));
+
+  /** Column layout, normalized against the current column definitions */
+  readonly layoutState = computed<TableLayoutState>(() => {
+    const columns = this.columns();
+    const keys = columns.map(column => column.key);
+    const layout = this.layout();
+
+    if (!layout) {
+      return {
+        order: keys,
+        hidden: columns.filter(column => column.hidden).map(column => column.key),
+        widths: {}
+      };
+    }
+
+    // Drop unknown keys and append columns added since the layout was saved
+    const order = layout.order.filter(key => keys.includes(key));
+    keys.forEach(key => {
+      if (!order.includes(key)) order.push(key);
+    });
+
+    const widths: Record<string, number> = {};
+    Object.entries(layout.widths).forEach(([key, width]) => {
+      if (keys.includes(key)) widths[key] = width;
+    });
+
+    return {
+      order,
+      hidden: layout.hidden.filter(key => keys.includes(key)),
+      widths
+    };
+  });
+
+  /** Columns in display order, in the column chooser */
+  readonly orderedColumns = computed(() => {
+    const columns = new Map(this.columns().map(column => [column.key, column]));
+    return this.layoutState().order.map(key => columns.get(key)!);
+  });
+
+  /** Rendered columns */
+  readonly visibleColumns = computed(() => {
+    const hidden = new Set(this.layoutState().hidden);
+    return this.orderedColumns().filter(column => !hidden.has(column.key));
+  });
+
+  /** Show the toolbar */
+  readonly hasToolbar = computed(() => this.columnChooser() || this.exportable());
+
+  /**
+   * Show the bare empty state instead of the table. Only for an empty client dataset:
+   * in remote mode or with active filters the table stays, so filters can be changed.
+   */
+  readonly showEmptyState = computed(() => {
+    return !this.isRemote() && this.data().length === 0 && this.activeFilters().length === 0;
+  });
+
+  /** Rows can be expanded */
+  readonly canExpand = computed(() => this.expandable() && !this.virtualScroll());
+
+  /** Expanded rows as a set */
+  readonly expandedSet = computed(() => new Set(this.expandedRows().map(row => this.getRowKey(row))));
+
+  /** Number of rendered columns (for full-width rows) */
+  readonly columnCount = computed(() => {
+    return this.visibleColumns().length + (this.selectable() ? 1 : 0) + (this.canExpand() ? 1 : 0);
+  });
+
+  /** Has filterable columns */
+  readonly hasFilters = computed(() => {
+    return this.visibleColumns().some(column => column.filterable && column.type !== 'actions');
+  });
+
+  /** Active filters with their column, for the filter chips */
+  readonly activeFilters = computed(() => {
+    const filters = this.filterState();
+    return this.columns()
+      .filter(column => filters[column.key])
+      .map(column => ({ column, filter: filters[column.key] }));
+  });
+
+  /** Options for 'set' filters, keyed by column key */
+  readonly filterOptions = computed(() => {
+    const options = new Map<string, { label: string; value: any }[]>();
+
+    this.columns()
+      .filter(column => column.filterable && column.filterType === 'set')
+      .forEach(column => {
+        if (column.filterOptions) {
+          options.set(column.key, column.filterOptions);
+          return;
+        }
+
+        const distinct = new Set(this.data().map((row: any) => row[column.key]));
+        options.set(column.key, Array.from(distinct)
+          .filter(value => value != null && value !== '')
+          .sort()
+          .map(value => ({ label: String(value), value })));
+      });
+
+    return options;
+  });
+
+  /** Filtered data */
+  readonly filteredData = computed(() => {
+    const data = this.data();
+    const filters = this.filterState();
+    const keys = Object.keys(filters);
+
+    if (this.isRemote() || keys.length === 0) {
+      return data;
+    }
+
+    return data.filter((row: any) =>
+      keys.every(key => this.matchesFilter(row[key], filters[key]))
+    );
+  });
+
   /** Sorted data */
   readonly sortedData = computed(() => {
-    const data = [...this.data()];
-    const sort = this.sortState();
+    const data = [...this.filteredData()];
+    const sorts = this.sortStates().filter(sort => sort.direction);
 
-    if (!sort.column || !sort.direction) {
+    if (this.isRemote() || sorts.length === 0) {
       return data;
     }
 
+    const columns = new Map(this.columns().map(column => [column.key, column]));
+    const nullsFirst = this.nullsPosition() === 'first';
+
     return data.sort((a: any, b: any) => {
-      const aVal = a[sort.column];
-      const bVal = b[sort.column];
+      for (const sort of sorts) {
+        const aVal = a[sort.column];
+        const bVal = b[sort.column];
+        const aEmpty = this.isEmptyValue(aVal);
+        const bEmpty = this.isEmptyValue(bVal);
+
+        if (aEmpty || bEmpty) {
+          if (aEmpty && bEmpty) continue;
+          return (aEmpty ? -1 : 1) * (nullsFirst ? 1 : -1);
+        }
 
-      if (aVal === bVal) return 0;
+        const compare = columns.get(sort.column)?.compare;
+        const comparison = compare ? compare(aVal, bVal, a, b) : this.compareValues(aVal, bVal);
+
+        if (comparison !== 0) {
+          return sort.direction === 'asc' ? comparison : -comparison;
+        }
+      }
 
-      const comparison = aVal > bVal ? 1 : -1;
-      return sort.direction === 'asc' ? comparison : -comparison;
+      return 0;
     });
   });
 
@@ -157,65 +675,234 @@ export class DataTableComponent<T = any> {
   readonly paginatedData = computed(() => {
     const sorted = this.sortedData();
     const pageSize = this.pageSize();
-    const page = this.currentPage();
+    const page = this.pageIndex();
 
-    if (pageSize === 0) return sorted;
+    if (this.isRemote() || pageSize === 0) return sorted;
 
     const start = page * pageSize;
     const end = start + pageSize;
     return sorted.slice(start, end);
   });
 
+  /** Window of rows to render */
+  readonly virtualRange = computed(() => {
+    const total = this.paginatedData().length;
+    if (!this.virtualScroll()) {
+      return { start: 0, end: total };
+    }
+
+    const rowHeight = this.rowHeight();
+    const first = Math.floor(this.scrollTop() / rowHeight);
+    const visible = Math.ceil(this.viewportHeight() / rowHeight);
+
+    // Keep the start index even so striped rows don't flicker while scrolling
+    let start = Math.max(0, first - VIRTUAL_OVERSCAN);
+    start -= start % 2;
+
+    return { start, end: Math.min(total, first + visible + VIRTUAL_OVERSCAN) };
+  });
+
+  /** Rows currently rendered */
+  readonly renderedRows = computed(() => {
+    const { start, end } = this.virtualRange();
+    return this.paginatedData().slice(start, end);
+  });
+
+  /** Height of the spacer above the rendered rows */
+  readonly topSpacerHeight = computed(() => {
+    return this.virtualRange().start * this.rowHeight();
+  });
+
+  /** Height of the spacer below the rendered rows */
+  readonly bottomSpacerHeight = computed(() => {
+    return (this.paginatedData().length - this.virtualRange().end) * this.rowHeight();
+  });
+
+  /** Id of the keyboard-active row, if rendered */
+  readonly activeDescendant = computed(() => {
+    const index = this.activeRowIndex();
+    const { start, end } = this.virtualRange();
+    return this.virtualScroll() && index >= start && index < end ? this.getRowId(index) : null;
+  });
+
+  /** Total number of rows across all pages */
+  readonly totalRows = computed(() => {
+    return this.isRemote() ? this.totalCount() : this.filteredData().length;
+  });
+
   /** Total pages */
   readonly totalPages = computed(() => {
     const pageSize = this.pageSize();
     if (pageSize === 0) return 1;
-    return Math.ceil(this.data().length / pageSize);
+    return Math.ceil(this.totalRows() / pageSize);
+  });
+
+  /**
+   * Page indexes for pagination buttons: the first and last page and a window around
+   * the current one. `null` marks an ellipsis for the skipped pages.
+   */
+  readonly pages = computed(() => {
+    const total = this.totalPages();
+    const current = Math.min(this.pageIndex(), total - 1);
+    const start = Math.max(1, current - PAGE_WINDOW);
+    const end = Math.min(total - 2, current + PAGE_WINDOW);
+
+    const pages: (number | null)[] = total > 0 ? [0] : [];
+    if (start > 2) {
+      pages.push(null);
+    } else if (start === 2) {
+      // An ellipsis would hide a single page; show it instead
+      pages.push(1);
+    }
+    for (let page = start; page <= end; page++) {
+      pages.push(page);
+    }
+    if (end < total - 3) {
+      pages.push(null);
+    } else if (end === total - 3) {
+      pages.push(total - 2);
+    }
+    if (total > 1) pages.push(total - 1);
+
+    return pages;
+  });
+
+  /** First row number on the current page (1-indexed) */
+  readonly pageStart = computed(() => {
+    return this.pageIndex() * this.pageSize() + 1;
+  });
+
+  /** Last row number on the current page (1-indexed) */
+  readonly pageEnd = computed(() => {
+    return Math.min((this.pageIndex() + 1) * this.pageSize(), this.totalRows());
   });
 
-  /** Is all rows selected */
+  /** Selected row ids as a set */
+  readonly selectedKeySet = computed(() => new Set(this.selectedKeys()));
+
+  /** Is all rows on the current page selected */
   readonly allSelected = computed(() => {
     const data = this.paginatedData();
-    const selection = this.internalSelection();
-    return data.length > 0 && data.every(row => selection.has(row));
+    return data.length > 0 && data.every(row => this.isRowSelected(row));
   });
 
-  /** Is some rows selected */
+  /** Is some rows on the current page selected */
   readonly someSelected = computed(() => {
     const data = this.paginatedData();
-    const selection = this.internalSelection();
-    const selectedCount = data.filter(row => selection.has(row)).length;
+    const selectedCount = data.filter(row => this.isRowSelected(row)).length;
     return selectedCount > 0 && selectedCount < data.length;
   });
 
+  /** Is every row matching the current filters selected (across all pages) */
+  readonly allMatching = computed(() => {
+    if (this.isRemote()) return this.allMatchingSelected();
+
+    const rows = this.filteredData();
+    return rows.length > 0 && rows.every(row => this.isRowSelected(row));
+  });
+
+  /** Number of selected rows */
+  readonly selectedCount = computed(() => {
+    return this.isRemote() && this.allMatchingSelected() ? this.totalRows() : this.selectedKeys().length;
+  });
+
+  /** Offer "select all N matching rows" once the current page is selected */
+  readonly showSelectAllBanner = computed(() => {
+    return this.selectable() && this.totalRows() > this.paginatedData().length && this.allSelected();
+  });
+
+  // ========================================
+  // Lifecycle
+  // ========================================
+
+  constructor() {
+    // Apply sorts set through sortState (runs before the query effect)
+    effect(() => {
+      const sort = this.sortState();
+      untracked(() => {
+        const primary = this.sortStates()[0] ?? { column: '', direction: null };
+        if (primary.column !== sort.column || primary.direction !== sort.direction) {
+          this.sortStates.set(sort.direction ? [sort] : []);
+        }
+      });
+    });
+
+    // Emit query changes in remote mode
+    effect(() => {
+      const query = this.query();
+      if (this.isRemote()) {
+        this.queryChange.emit(query);
+      }
+    });
+
+    // Sync the selectedRows input into the keyed selection
+    let initialSync = true;
+    effect(() => {
+      const rows = this.selectedRows();
+      if (initialSync && rows.length === 0) {
+        initialSync = false;
+        return;
+      }
+
+      initialSync = false;
+      untracked(() => {
+        this.rememberRows(rows);
+        this.selectedKeys.set(rows.map(row => this.getRowKey(row)));
+      });
+    });
+  }
+
+  ngOnDestroy(): void {
+    this.stopResizeTracking();
+    this.textFilterTimers.forEach(timer => clearTimeout(timer));
+  }
+
   // ========================================
   // Methods
   // ========================================
 
   /**
-   * Handle column header click for sorting
+   * Handle column header click for sorting.
+   * Shift-click adds the column to (or cycles it within) a multi-column sort.
    */
-  onColumnClick(column: TableColumn<T>): void {
+  onColumnClick(column: TableColumn<T>, event?: MouseEvent): void {
     if (!column.sortable) return;
 
-    const current = this.sortState();
+    const sorts = this.sortStates();
+    const current = sorts.find(sort => sort.column === column.key);
     let newDirection: SortDirection = 'asc';
 
-    if (current.column === column.key) {
-      if (current.direction === 'asc') {
-        newDirection = 'desc';
-      } else if (current.direction === 'desc') {
-        newDirection = null;
+    if (current?.direction === 'asc') {
+      newDirection = 'desc';
+    } else if (current?.direction === 'desc') {
+      newDirection = null;
+    }
+
+    let newSorts: SortState[];
+
+    if (event?.shiftKey) {
+      newSorts = current
+        ? sorts
+            .map(sort => sort.column === column.key ? { ...sort, direction: newDirection } : sort)
+            .filter(sort => sort.direction)
+        : [...sorts, { column: column.key, direction: newDirection }];
+    } else {
+      // A plain click on a secondary sort column makes it the only sort, starting ascending
+      if (current && sorts.length > 1) {
+        newDirection = 'asc';
       }
+      newSorts = newDirection ? [{ column: column.key, direction: newDirection }] : [];
     }
 
-    const newState: SortState = {
-      column: newDirection ? column.key : '',
-      direction: newDirection
-    };
+    this.sortStates.set(newSorts);
+    this.sortChange.emit(this.sortState());
+    this.multiSortChange.emit(newSorts);
 
-    this.sortState.set(newState);
-    this.sortChange.emit(newState);
+    // Remote results are re-sorted on the server, so start from the first page
+    if (this.isRemote() && this.pageIndex() !== 0) {
+      this.pageIndex.set(0);
+      this.pageChange.emit(0);
+    }
   }
 
   /**
@@ -224,58 +911,949 @@ export class DataTableComponent<T = any> {
   getSortIcon(column: TableColumn<T>): string {
     if (!column.sortable) return '';
 
-    const sort = this.sortState();
-    if (sort.column !== column.key) return '↕';
+    const sort = this.getColumnSort(column);
+    if (!sort) return '↕';
 
     return sort.direction === 'asc' ? '↑' : '↓';
   }
 
   /**
-   * Handle row click
+   * Get the active sort for a column
    */
-  onRowClick(row: T, event: Event): void {
-    if ((event.target as HTMLElement).tagName === 'INPUT') return;
-    this.rowClick.emit(row);
+  getColumnSort(column: TableColumn<T>): SortState | undefined {
+    return this.sortStates().find(sort => sort.column === column.key);
   }
 
   /**
-   * Toggle row selection
+   * Get the sort priority of a column (1-based, 0 when not sorted)
    */
-  toggleRowSelection(row: T): void {
-    const selection = new Set(this.internalSelection());
-
-    if (selection.has(row)) {
-      selection.delete(row);
-    } else {
-      selection.add(row);
-    }
+  getSortOrder(column: TableColumn<T>): number {
+    return this.sortStates().findIndex(sort => sort.column === column.key) + 1;
+  }
 
-    this.internalSelection.set(selection);
-    this.selectionChange.emit(Array.from(selection));
+  /**
+   * Get aria-sort value for a column header
+   */
+  getAriaSort(column: TableColumn<T>): string | null {
+    const sort = this.getColumnSort(column);
+    if (!sort) return null;
+    return sort.direction === 'asc' ? 'ascending' : 'descending';
   }
 
   /**
-   * Toggle all rows selection
+   * Check if a value sorts as empty
    */
-  toggleAllSelection(): void {
-    const selection = new Set(this.internalSelection());
-    const data = this.paginatedData();
+  private isEmptyValue(value: any): boolean {
+    return value === null || value === undefined || value === '' || (typeof value === 'number' && Number.isNaN(value));
+  }
+
+  /**
+   * Default comparator: numbers, dates (Date or ISO strings), booleans,
+   * and locale-aware strings
+   */
+  private compareValues(a: any, b: any): number {
+    if (typeof a === 'number' && typeof b === 'number') {
+      return a - b;
+    }
+
+    if (a instanceof Date && b instanceof Date) {
+      return a.getTime() - b.getTime();
+    }
+
+    if (typeof a === 'boolean' && typeof b === 'boolean') {
+      return Number(a) - Number(b);
+    }
+
+    if (typeof a === 'string' && typeof b === 'string' && ISO_DATE_PATTERN.test(a) && ISO_DATE_PATTERN.test(b)) {
+      const aTime = Date.parse(a);
+      const bTime = Date.parse(b);
+      if (!Number.isNaN(aTime) && !Number.isNaN(bTime)) {
+        return aTime - bTime;
+      }
+    }
+
+    return this.collator().compare(String(a), String(b));
+  }
+
+  /**
+   * Handle row click
+   */
+  onRowClick(row: T, event: Event, index?: number): void {
+    if (index !== undefined && this.virtualScroll()) {
+      this.activeRowIndex.set(index);
+    }
+
+    if ((event.target as HTMLElement).tagName === 'INPUT') return;
+    this.rowClick.emit(row);
+  }
+
+  // ========================================
+  // Column Layout
+  // ========================================
+
+  /**
+   * Check if a column is visible
+   */
+  isColumnVisible(column: TableColumn<T>): boolean {
+    return !this.layoutState().hidden.includes(column.key);
+  }
+
+  /**
+   * Check if a column can be hidden (the last visible column can't)
+   */
+  canHideColumn(column: TableColumn<T>): boolean {
+    return column.hideable !== false && this.visibleColumns().length > 1;
+  }
+
+  /**
+   * Show or hide a column
+   */
+  setColumnVisible(column: TableColumn<T>, visible: boolean): void {
+    const hidden = this.layoutState().hidden.filter(key => key !== column.key);
+    if (!visible) hidden.push(column.key);
+    this.updateLayout({ hidden });
+  }
+
+  /**
+   * Move a column to a new position in the display order
+   */
+  moveColumn(key: string, toIndex: number): void {
+    const order = this.layoutState().order.filter(columnKey => columnKey !== key);
+    if (order.length === this.layoutState().order.length) return;
+
+    order.splice(Math.min(Math.max(toIndex, 0), order.length), 0, key);
+    this.updateLayout({ order });
+  }
+
+  /**
+   * Set a column width in px
+   */
+  setColumnWidth(column: TableColumn<T>, width: number): void {
+    const minWidth = column.minWidth ?? MIN_COLUMN_WIDTH;
+    this.updateLayout({
+      widths: { ...this.layoutState().widths, [column.key]: Math.round(Math.max(minWidth, width)) }
+    });
+  }
+
+  /**
+   * Restore the column definition defaults
+   */
+  resetLayout(): void {
+    this.layout.set(null);
+  }
+
+  /**
+   * Get the rendered width of a column
+   */
+  getColumnWidth(column: TableColumn<T>): string | undefined {
+    const resizing = this.resizing();
+    if (resizing?.key === column.key) return `${resizing.width}px`;
+
+    const width = this.layoutState().widths[column.key];
+    return width !== undefined ? `${width}px` : column.width;
+  }
+
+  /**
+   * Check if a column can be resized
+   */
+  isColumnResizable(column: TableColumn<T>): boolean {
+    return this.resizable() && column.resizable !== false;
+  }
+
+  /**
+   * Handle header drag start (reordering)
+   */
+  onHeaderDragStart(column: TableColumn<T>, event: DragEvent): void {
+    if (!this.reorderable() || this.resizing()) {
+      event.preventDefault();
+      return;
+    }
+
+    this.draggedColumn.set(column.key);
+
+    if (event.dataTransfer) {
+      event.dataTransfer.effectAllowed = 'move';
+      event.dataTransfer.setData('text/plain', column.key);
+    }
+  }
+
+  /**
+   * Handle header drag over (reordering)
+   */
+  onHeaderDragOver(column: TableColumn<T>, event: DragEvent): void {
+    if (!this.draggedColumn()) return;
+
+    event.preventDefault();
+    if (event.dataTransfer) {
+      event.dataTransfer.dropEffect = 'move';
+    }
+    this.dropTargetColumn.set(column.key);
+  }
+
+  /**
+   * Handle header drop (reordering)
+   */
+  onHeaderDrop(column: TableColumn<T>, event: DragEvent): void {
+    const dragged = this.draggedColumn();
+    if (!dragged) return;
+
+    event.preventDefault();
+    if (dragged !== column.key) {
+      this.moveColumn(dragged, this.layoutState().order.indexOf(column.key));
+    }
+    this.onHeaderDragEnd();
+  }
+
+  /**
+   * Handle header drag end (reordering)
+   */
+  onHeaderDragEnd(): void {
+    this.draggedColumn.set(null);
+    this.dropTargetColumn.set(null);
+  }
+
+  /**
+   * Handle resize handle pointer down
+   */
+  onResizeStart(column: TableColumn<T>, event: PointerEvent): void {
+    event.preventDefault();
+    event.stopPropagation();
+
+    const header = (event.target as HTMLElement).closest('th');
+    const width = header?.getBoundingClientRect().width ?? 0;
+
+    this.resizeStart = { x: event.clientX, width };
+    this.resizing.set({ key: column.key, width });
+
+    document.addEventListener('pointermove', this.onResizeMove);
+    document.addEventListener('pointerup', this.onResizeEnd);
+  }
+
+  /**
+   * Handle resize handle keyboard (ArrowLeft/ArrowRight)
+   */
+  onResizeKeyDown(column: TableColumn<T>, event: KeyboardEvent): void {
+    if (event.key !== 'ArrowLeft' && event.key !== 'ArrowRight') return;
+
+    event.preventDefault();
+    event.stopPropagation();
+
+    const header = (event.target as HTMLElement).closest('th');
+    const width = this.layoutState().widths[column.key] ?? header?.getBoundingClientRect().width ?? 0;
+    this.setColumnWidth(column, width + (event.key === 'ArrowRight' ? RESIZE_STEP : -RESIZE_STEP));
+  }
+
+  /**
+   * Track pointer while resizing
+   */
+  private readonly onResizeMove = (event: PointerEvent): void => {
+    const resizing = this.resizing();
+    if (!resizing) return;
+
+    const column = this.columns().find(col => col.key === resizing.key);
+    const minWidth = column?.minWidth ?? MIN_COLUMN_WIDTH;
+    const width = Math.max(minWidth, this.resizeStart.width + event.clientX - this.resizeStart.x);
+    this.resizing.set({ key: resizing.key, width: Math.round(width) });
+  };
+
+  /**
+   * Commit the new width when the pointer is released
+   */
+  private readonly onResizeEnd = (): void => {
+    const resizing = this.resizing();
+    const column = this.columns().find(col => col.key === resizing?.key);
+
+    this.stopResizeTracking();
+    if (resizing && column) {
+      this.setColumnWidth(column, resizing.width);
+    }
+  };
+
+  /**
+   * Remove resize listeners
+   */
+  private stopResizeTracking(): void {
+    this.resizing.set(null);
+
+    if (typeof document !== 'undefined') {
+      document.removeEventListener('pointermove', this.onResizeMove);
+      document.removeEventListener('pointerup', this.onResizeEnd);
+    }
+  }
+
+  /**
+   * Apply a layout change and emit the new layout
+   */
+  private updateLayout(change: Partial<TableLayoutState>): void {
+    this.layout.set({ ...this.layoutState(), ...change });
+  }
+
+  // ========================================
+  // Export
+  // ========================================
+
+  /**
+   * Serialize the current view (sort, filters, visible columns) to CSV or TSV.
+   * In remote mode only the loaded page is available.
+   */
+  getExportContent(options: TableExportOptions = {}): string {
+    const format = options.format ?? 'csv';
+    const delimiter = format === 'tsv' ? '\t' : options.delimiter ?? ',';
+    const columns = this.visibleColumns().filter(column => column.type !== 'actions');
+    const rows = this.getExportRows(options.selectedOnly ?? false);
+
+    const lines: string[][] = [];
+    if (options.includeHeader !== false) {
+      lines.push(columns.map(column => column.label));
+    }
+    rows.forEach(row => {
+      lines.push(columns.map(column => this.getExportValue(row, column, options.values ?? 'formatted')));
+    });
+
+    const content = lines
+      .map(line =>
+        line
+          .map(value => this.escapeExportValue(value, format, delimiter, options.escapeFormulas ?? true))
+          .join(delimiter)
+      )
+      .join('\r\n');
+
+    return options.bom ? `\uFEFF${content}` : content;
+  }
+
+  /**
+   * Download the current view as a CSV or TSV file
+   */
+  exportData(options: TableExportOptions = this.exportOptions()): void {
+    const format = options.format ?? 'csv';
+    const content = this.getExportContent({ ...options, bom: options.bom ?? true });
+    const type = format === 'tsv' ? 'text/tab-separated-values' : 'text/csv';
+    const blob = new Blob([content], { type: `${type};charset=utf-8` });
+    const url = URL.createObjectURL(blob);
+
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${options.filename ?? 'export'}.${format}`;
+    link.style.display = 'none';
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+
+    // Some browsers start the download asynchronously; revoking right away can cancel it
+    setTimeout(() => URL.revokeObjectURL(url));
+  }
+
+  /**
+   * Copy the current view to the clipboard as TSV, ready to paste into a spreadsheet
+   */
+  copyToClipboard(options: TableExportOptions = {}): Promise<void> {
+    return navigator.clipboard.writeText(
+      this.getExportContent({ ...options, format: 'tsv', bom: false })
+    );
+  }
+
+  /**
+   * Rows included in an export
+   */
+  private getExportRows(selectedOnly: boolean): T[] {
+    if (!selectedOnly) return this.sortedData();
+
+    // Remote mode: selected rows may come from pages that are no longer loaded
+    if (this.isRemote()) return this.getSelectedRows();
+
+    return this.sortedData().filter(row => this.isRowSelected(row));
+  }
+
+  /**
+   * Cell value for export
+   */
+  private getExportValue(row: T, column: TableColumn<T>, values: 'formatted' | 'raw'): string {
+    if (values === 'formatted') return this.getCellValue(row, column);
+
+    const value = (row as any)[column.key];
+    if (value == null) return '';
+    if (value instanceof Date) return value.toISOString();
+    if (typeof value === 'object') return JSON.stringify(value);
+    return String(value);
+  }
+
+  /**
+   * Quote a CSV field, or flatten a TSV field (TSV has no quoting that pastes reliably).
+   * Values that would run as a spreadsheet formula are prefixed with `'` unless disabled.
+   */
+  private escapeExportValue(
+    value: string,
+    format: TableExportFormat,
+    delimiter: string,
+    escapeFormulas: boolean
+  ): string {
+    if (escapeFormulas && FORMULA_TRIGGER.test(value) && !NUMERIC_VALUE.test(value)) {
+      value = `'${value}`;
+    }
+
+    if (format === 'tsv') {
+      return value.replace(/[\t\r\n]+/g, ' ');
+    }
+
+    if (value.includes(delimiter) || /["\r\n]/.test(value)) {
+      return `"${value.replace(/"/g, '""')}"`;
+    }
+    return value;
+  }
+
+  // ========================================
+  // Row Expansion
+  // ========================================
+
+  /**
+   * Check if row is expanded
+   */
+  isRowExpanded(row: T): boolean {
+    return this.expandedSet().has(this.getRowKey(row));
+  }
+
+  /**
+   * Expand or collapse a row
+   */
+  setRowExpanded(row: T, expanded: boolean): void {
+    if (expanded === this.isRowExpanded(row)) return;
+
+    if (!expanded) {
+      const key = this.getRowKey(row);
+      this.expandedRows.set(this.expandedRows().filter(expandedRow => this.getRowKey(expandedRow) !== key));
+    } else if (this.expandMode() === 'single') {
+      this.expandedRows.set([row]);
+    } else {
+      this.expandedRows.set([...this.expandedRows(), row]);
+    }
+  }
+
+  /**
+   * Toggle row expansion
+   */
+  toggleRowExpansion(row: T, event?: Event): void {
+    // Don't trigger rowClick
+    event?.stopPropagation();
+    this.setRowExpanded(row, !this.isRowExpanded(row));
+  }
+
+  /**
+   * Handle row keyboard shortcuts (ArrowRight expands, ArrowLeft collapses).
+   * Only on the row itself or its expand toggle, so inputs and buttons in cells keep their keys.
+   */
+  onRowKeyDown(row: T, event: KeyboardEvent): void {
+    if (!this.canExpand()) return;
+
+    const target = event.target as HTMLElement;
+    if (target !== event.currentTarget && !target.classList.contains('expand-toggle')) return;
+
+    if (event.key === 'ArrowRight' || event.key === 'ArrowLeft') {
+      event.preventDefault();
+      this.setRowExpanded(row, event.key === 'ArrowRight');
+    }
+  }
+
+  /**
+   * Get the DOM id of a row's detail row
+   */
+  getDetailId(index: number): string {
+    return `${this.tableId}-detail-${index}`;
+  }
+
+  /**
+   * Get the template context for a detail row
+   */
+  getDetailContext(row: T, index: number): TableDetailContext<T> {
+    return { $implicit: row, index };
+  }
+
+  // ========================================
+  // Virtual Scrolling
+  // ========================================
+
+  /**
+   * Get the DOM id of a row
+   */
+  getRowId(index: number): string {
+    return `${this.tableId}-row-${index}`;
+  }
+
+  /**
+   * Handle viewport scroll
+   */
+  onScroll(event: Event): void {
+    if (!this.virtualScroll()) return;
+    this.scrollTop.set((event.target as HTMLElement).scrollTop);
+  }
+
+  /**
+   * Handle keyboard navigation in virtual scrolling mode.
+   * The table keeps focus while rows are recycled; the active row is
+   * exposed through aria-activedescendant.
+   */
+  onTableKeyDown(event: KeyboardEvent): void {
+    if (!this.virtualScroll() || event.target !== event.currentTarget) return;
+
+    const rows = this.paginatedData();
+    if (rows.length === 0) return;
+
+    const pageRows = Math.max(1, Math.floor(this.viewportHeight() / this.rowHeight()) - 1);
+    const current = this.activeRowIndex();
+    let next = current;
+
+    switch (event.key) {
+      case 'ArrowDown':
+        next = current + 1;
+        break;
+      case 'ArrowUp':
+        next = current - 1;
+        break;
+      case 'PageDown':
+        next = current + pageRows;
+        break;
+      case 'PageUp':
+        next = current - pageRows;
+        break;
+      case 'Home':
+        next = 0;
+        break;
+      case 'End':
+        next = rows.length - 1;
+        break;
+      case 'Enter':
+        event.preventDefault();
+        if (rows[current]) this.rowClick.emit(rows[current]);
+        return;
+      case ' ':
+        event.preventDefault();
+        if (rows[current] && this.selectable()) this.toggleRowSelection(rows[current]);
+        return;
+      default:
+        return;
+    }
+
+    event.preventDefault();
+    next = Math.min(rows.length - 1, Math.max(0, next));
+    this.activeRowIndex.set(next);
+    this.scrollRowIntoView(next);
+  }
+
+  /**
+   * Scroll the viewport so a row is fully visible below the header
+   */
+  private scrollRowIntoView(index: number): void {
+    const container = this.scrollContainer?.nativeElement;
+    const spacer = container?.querySelector<HTMLElement>('.virtual-spacer');
+    if (!container || !spacer) return;
+
+    const rowHeight = this.rowHeight();
+    const headerHeight = container.querySelector('thead')?.getBoundingClientRect().height ?? 0;
+    const rowsOffset = spacer.getBoundingClientRect().top - container.getBoundingClientRect().top + container.scrollTop;
+    const rowTop = rowsOffset + index * rowHeight;
+
+    if (rowTop - headerHeight < container.scrollTop) {
+      container.scrollTop = rowTop - headerHeight;
+    } else if (rowTop + rowHeight > container.scrollTop + container.clientHeight) {
+      container.scrollTop = rowTop + rowHeight - container.clientHeight;
+    }
+  }
+
+  // ========================================
+  // Selection
+  // ========================================
+
+  /**
+   * Get the id of a row, or the row itself when no `rowKey` is set
+   */
+  getRowKey(row: T): TableSelectionKey<T> {
+    const rowKey = this.rowKey();
+
+    if (typeof rowKey === 'function') return rowKey(row);
+    if (rowKey) return (row as any)[rowKey];
+
+    // No rowKey: fall back to object identity
+    return row;
+  }
+
+  /**
+   * Toggle row selection
+   */
+  toggleRowSelection(row: T): void {
+    const key = this.getRowKey(row);
+
+    if (this.isRemote() && this.allMatchingSelected()) {
+      // Leaving "all matching" keeps the loaded rows selected, except this one
+      this.allMatchingSelected.set(false);
+      this.rememberRows(this.data());
+      this.setSelectedKeys(this.data().map(r => this.getRowKey(r)).filter(k => k !== key));
+      return;
+    }
+
+    if (this.selectedKeySet().has(key)) {
+      this.setSelectedKeys(this.selectedKeys().filter(k => k !== key));
+    } else {
+      this.rememberRows([row]);
+      this.setSelectedKeys([...this.selectedKeys(), key]);
+    }
+  }
+
+  /**
+   * Toggle selection of all rows on the current page
+   */
+  toggleAllSelection(): void {
+    const data = this.paginatedData();
+
+    if (this.isRemote() && this.allMatchingSelected()) {
+      this.clearSelection();
+      return;
+    }
+
+    const pageKeys = new Set(data.map(row => this.getRowKey(row)));
+    const keys = this.selectedKeys().filter(key => !pageKeys.has(key));
 
     if (this.allSelected()) {
-      data.forEach(row => selection.delete(row));
+      this.setSelectedKeys(keys);
     } else {
-      data.forEach(row => selection.add(row));
+      this.rememberRows(data);
+      this.setSelectedKeys([...keys, ...pageKeys]);
     }
+  }
 
-    this.internalSelection.set(selection);
-    this.selectionChange.emit(Array.from(selection));
+  /**
+   * Select every row matching the current filters, across all pages.
+   * In remote mode the server resolves the rows from `allMatchingSelected` and the current query.
+   */
+  selectAllMatching(): void {
+    if (this.isRemote()) {
+      this.rememberRows(this.data());
+      this.allMatchingSelected.set(true);
+      this.selectionChange.emit(this.getSelectedRows());
+      return;
+    }
+
+    const rows = this.filteredData();
+    const keys = new Set(this.selectedKeys());
+    rows.forEach(row => keys.add(this.getRowKey(row)));
+
+    this.rememberRows(rows);
+    this.setSelectedKeys(Array.from(keys));
+  }
+
+  /**
+   * Clear the selection on all pages
+   */
+  clearSelection(): void {
+    this.allMatchingSelected.set(false);
+    this.setSelectedKeys([]);
   }
 
   /**
    * Check if row is selected
    */
   isRowSelected(row: T): boolean {
-    return this.internalSelection().has(row);
+    return (this.isRemote() && this.allMatchingSelected()) || this.selectedKeySet().has(this.getRowKey(row));
+  }
+
+  /**
+   * Get the selected rows that are available (current data, or seen on earlier pages).
+   * With remote "all matching" selection only the loaded rows are returned.
+   */
+  getSelectedRows(): T[] {
+    if (this.isRemote() && this.allMatchingSelected()) return this.data();
+
+    const rows = new Map(this.knownRows);
+    this.data().forEach(row => rows.set(this.getRowKey(row), row));
+
+    return this.selectedKeys()
+      .filter(key => rows.has(key))
+      .map(key => rows.get(key)!);
+  }
+
+  /**
+   * Update the selection and emit the selected rows
+   */
+  private setSelectedKeys(keys: TableSelectionKey<T>[]): void {
+    const selected = new Set(keys);
+    this.knownRows.forEach((_, key) => {
+      if (!selected.has(key)) this.knownRows.delete(key);
+    });
+
+    this.selectedKeys.set(keys);
+    this.selectionChange.emit(this.getSelectedRows());
+  }
+
+  /**
+   * Remember rows so they can be emitted after they leave the current page
+   */
+  private rememberRows(rows: T[]): void {
+    rows.forEach(row => this.knownRows.set(this.getRowKey(row), row));
+  }
+
+  // ========================================
+  // Filtering
+  // ========================================
+
+  /**
+   * Get the active filter for a column
+   */
+  getFilter(column: TableColumn<T>): TableFilterValue | undefined {
+    return this.filterState()[column.key];
+  }
+
+  /**
+   * Set (or clear, when null) the filter for a column
+   */
+  setFilter(column: TableColumn<T>, filter: TableFilterValue | null): void {
+    this.cancelTextFilter(column.key);
+
+    const filters = { ...this.filterState() };
+
+    if (filter && !this.isEmptyFilter(filter)) {
+      filters[column.key] = filter;
+    } else {
+      delete filters[column.key];
+    }
+
+    this.filterState.set(filters);
+    this.filterChange.emit(filters);
+
+    // "All matching" refers to the previous filters
+    if (this.allMatchingSelected()) {
+      this.allMatchingSelected.set(false);
+    }
+
+    // Filtering changes the row set, so start from the first page
+    if (this.pageIndex() !== 0) {
+      this.pageIndex.set(0);
+      this.pageChange.emit(0);
+    }
+  }
+
+  /**
+   * Clear all filters
+   */
+  clearAllFilters(): void {
+    this.textFilterTimers.forEach(timer => clearTimeout(timer));
+    this.textFilterTimers.clear();
+
+    if (Object.keys(this.filterState()).length === 0) return;
+
+    this.filterState.set({});
+    this.filterChange.emit({});
+
+    if (this.allMatchingSelected()) {
+      this.allMatchingSelected.set(false);
+    }
+
+    if (this.pageIndex() !== 0) {
+      this.pageIndex.set(0);
+      this.pageChange.emit(0);
+    }
+  }
+
+  /**
+   * Handle text filter input (debounced in remote mode, where each change queries the server)
+   */
+  onTextFilterInput(column: TableColumn<T>, value: string): void {
+    if (!this.isRemote()) {
+      this.setFilter(column, { type: 'text', value });
+      return;
+    }
+
+    this.cancelTextFilter(column.key);
+    this.textFilterTimers.set(column.key, setTimeout(() => {
+      this.setFilter(column, { type: 'text', value });
+    }, TEXT_FILTER_DEBOUNCE));
+  }
+
+  /**
+   * Cancel a pending text filter update
+   */
+  private cancelTextFilter(key: string): void {
+    clearTimeout(this.textFilterTimers.get(key));
+    this.textFilterTimers.delete(key);
+  }
+
+  /**
+   * Handle numeric range filter input
+   */
+  onNumberFilterInput(column: TableColumn<T>, bound: 'min' | 'max', value: string): void {
+    const current = this.getFilter(column);
+    const range = current?.type === 'number' ? current : { type: 'number' as const };
+    const parsed = value === '' ? undefined : Number(value);
+
+    this.setFilter(column, { ...range, [bound]: Number.isNaN(parsed) ? undefined : parsed });
+  }
+
+  /**
+   * Handle date range filter input
+   */
+  onDateFilterInput(column: TableColumn<T>, bound: 'from' | 'to', value: string): void {
+    const current = this.getFilter(column);
+    const range = current?.type === 'date' ? current : { type: 'date' as const };
+
+    this.setFilter(column, { ...range, [bound]: value || undefined });
+  }
+
+  /**
+   * Handle set filter option toggle
+   */
+  onSetFilterToggle(column: TableColumn<T>, value: any, checked: boolean): void {
+    const current = this.getFilter(column);
+    const values = current?.type === 'set' ? current.values.filter(v => v !== value) : [];
+
+    this.setFilter(column, { type: 'set', values: checked ? [...values, value] : values });
+  }
+
+  /**
+   * Check if a set filter option is selected
+   */
+  isSetFilterSelected(column: TableColumn<T>, value: any): boolean {
+    const filter = this.getFilter(column);
+    return filter?.type === 'set' && filter.values.includes(value);
+  }
+
+  /**
+   * Get a filter bound for binding to an input
+   */
+  getFilterBound(column: TableColumn<T>, bound: 'value' | 'min' | 'max' | 'from' | 'to'): string {
+    const filter = this.getFilter(column) as Record<string, any> | undefined;
+    const value = filter?.[bound];
+    return value != null ? String(value) : '';
+  }
+
+  /**
+   * Get summary text for a set filter toggle
+   */
+  getSetFilterSummary(column: TableColumn<T>): string {
+    const filter = this.getFilter(column);
+    return filter?.type === 'set' ? `${filter.values.length} selected` : 'All';
+  }
+
+  /**
+   * Get chip label for an active filter
+   */
+  getFilterChipLabel(column: TableColumn<T>, filter: TableFilterValue): string {
+    switch (filter.type) {
+      case 'text':
+        return `${column.label}: "${filter.value}"`;
+      case 'number':
+      case 'date': {
+        const [from, to] = filter.type === 'number' ? [filter.min, filter.max] : [filter.from, filter.to];
+        if (from != null && to != null) return `${column.label}: ${from} – ${to}`;
+        return from != null ? `${column.label} ≥ ${from}` : `${column.label} ≤ ${to}`;
+      }
+      case 'set': {
+        const options = this.filterOptions().get(column.key) || [];
+        const labels = filter.values.map(value =>
+          options.find(option => option.value === value)?.label ?? String(value)
+        );
+        return `${column.label}: ${labels.join(', ')}`;
+      }
+    }
+  }
+
+  /**
+   * Check if a filter has no effect
+   */
+  private isEmptyFilter(filter: TableFilterValue): boolean {
+    switch (filter.type) {
+      case 'text':
+        return filter.value.trim() === '';
+      case 'number':
+        return filter.min == null && filter.max == null;
+      case 'date':
+        return !filter.from && !filter.to;
+      case 'set':
+        return filter.values.length === 0;
+    }
+  }
+
+  /**
+   * Check if a cell value matches a filter
+   */
+  private matchesFilter(value: any, filter: TableFilterValue): boolean {
+    switch (filter.type) {
+      case 'text':
+        return value != null && String(value).toLowerCase().includes(filter.value.trim().toLowerCase());
+      case 'number': {
+        if (value == null || value === '' || Number.isNaN(Number(value))) return false;
+        const num = Number(value);
+        return (filter.min == null || num >= filter.min) && (filter.max == null || num <= filter.max);
+      }
+      case 'date': {
+        const date = this.toIsoDate(value);
+        if (!date) return false;
+        return (!filter.from || date >= filter.from) && (!filter.to || date <= filter.to);
+      }
+      case 'set':
+        return filter.values.includes(value);
+    }
+  }
+
+  /**
+   * Normalize a Date or ISO string to `YYYY-MM-DD` (local date)
+   */
+  private toIsoDate(value: any): string | null {
+    if (value == null || value === '') return null;
+    if (typeof value === 'string' && ISO_DATE_PATTERN.test(value)) {
+      return value.slice(0, 10);
+    }
+
+    const date = value instanceof Date ? value : new Date(value);
+    if (Number.isNaN(date.getTime())) return null;
+
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+  }
+
+  // ========================================
+  // Cells & Pagination
+  // ========================================
+
+  /**
+   * Get the custom cell template for a column
+   */
+  getCellTemplate(column: TableColumn<T>): TemplateRef<TableCellContext<T>> | null {
+    return this.cellTemplates?.find(template => template.columnKey() === column.key)?.templateRef ?? null;
+  }
+
+  /**
+   * Get the custom header template for a column
+   */
+  getHeaderTemplate(column: TableColumn<T>): TemplateRef<TableHeaderContext<T>> | null {
+    return this.headerTemplates?.find(template => template.columnKey() === column.key)?.templateRef ?? null;
+  }
+
+  /**
+   * Get the template context for a custom cell
+   */
+  getCellContext(row: T, column: TableColumn<T>, index: number): TableCellContext<T> {
+    return { $implicit: (row as any)[column.key], row, column, index };
+  }
+
+  /**
+   * Get the visible actions for a row
+   */
+  getRowActions(column: TableColumn<T>, row: T): TableRowAction<T>[] {
+    return (column.actions || []).filter(action => !action.hidden?.(row));
+  }
+
+  /**
+   * Check if a row action is disabled
+   */
+  isRowActionDisabled(action: TableRowAction<T>, row: T): boolean {
+    return action.disabled?.(row) ?? false;
+  }
+
+  /**
+   * Handle row action click
+   */
+  onRowAction(action: TableRowAction<T>, row: T, event: MouseEvent): void {
+    // Keep the click from reaching the row (rowClick)
+    event.stopPropagation();
+    this.rowAction.emit({ action: action.id, row });
   }
 
   /**
@@ -304,13 +1882,13 @@ export class DataTableComponent<T = any> {
    * Next page
    */
   nextPage(): void {
-    this.goToPage(this.currentPage() + 1);
+    this.goToPage(this.pageIndex() + 1);
   }
 
   /**
    * Previous page
    */
   previousPage(): void {
-    this.goToPage(this.currentPage() - 1);
+    this.goToPage(this.pageIndex() - 1);
   }
 }
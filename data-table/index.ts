@@ -1 +1,32 @@
-export { DataTableComponent, type TableColumn, type TableConfig, type SortState, type SortDirection } from './data-table.component';
+export {
+  DataTableComponent,
+  type TableColumn,
+  type TableConfig,
+  type SortState,
+  type SortDirection,
+  type NullsPosition,
+  type TableFilterType,
+  type TableFilterValue,
+  type TableFilters,
+  type TableDataMode,
+  type TableQuery,
+  type TableQueryResult,
+  type TableColumnType,
+  type TableRowAction,
+  type TableRowActionEvent,
+  type TableExpandMode,
+  type TableLayoutState,
+  type TableExportFormat,
+  type TableExportOptions,
+  type TableRowId,
+  type TableRowKey,
+  type TableSelectionKey
+} from './data-table.component';
+export {
+  TableCellTemplateDirective,
+  TableHeaderTemplateDirective,
+  TableDetailTemplateDirective,
+  type TableCellContext,
+  type TableHeaderContext,
+  type TableDetailContext
+} from './data-table-template.directive';
@@ -0,0 +1,114 @@
+import type { FormField } from './form.component';
+
+/**
+ * Saved form draft
+ */
+export interface FormDraft {
+  /** Version of the field definitions the draft was saved for */
+  version: string;
+  /** ISO timestamp */
+  savedAt: string;
+  values: Record<string, any>;
+}
+
+/**
+ * Storage adapter for form drafts. Methods may be sync or async,
+ * so drafts can also be kept on a backend.
+ */
+export interface FormDraftStorage {
+  get(key: string): FormDraft | null | Promise<FormDraft | null>;
+  set(key: string, draft: FormDraft): void | Promise<void>;
+  remove(key: string): void | Promise<void>;
+}
+
+/**
+ * Autosave configuration
+ */
+export interface FormAutosaveConfig {
+  /** Storage key for this form, e.g. 'loan-application' */
+  key: string;
+  /** Storage adapter (default: LocalStorageDraftStorage) */
+  storage?: FormDraftStorage;
+  /** Debounce in ms (default: 1000) */
+  debounce?: number;
+  /** Draft version (default: derived from field names and types) */
+  version?: string;
+  /**
+   * Remove the draft as soon as `formSubmit` is emitted, before the server has accepted it (default: false).
+   * Otherwise the draft is removed once the submission succeeds: by `submitSucceeded()` or `resetTo()`,
+   * or when the form is destroyed without `setServerErrors()` or edits since the submit.
+   */
+  clearOnSubmit?: boolean;
+}
+
+/**
+ * Stores drafts in localStorage as JSON
+ */
+export class LocalStorageDraftStorage implements FormDraftStorage {
+  constructor(private readonly prefix = 'form-draft:') {}
+
+  get(key: string): FormDraft | null {
+    try {
+      const json = localStorage.getItem(this.prefix + key);
+      return json ? JSON.parse(json) : null;
+    } catch {
+      // Unavailable storage or corrupt draft
+      return null;
+    }
+  }
+
+  set(key: string, draft: FormDraft): void {
+    try {
+      localStorage.setItem(this.prefix + key, JSON.stringify(draft));
+    } catch {
+      // Quota exceeded or storage unavailable; autosave is best effort
+    }
+  }
+
+  remove(key: string): void {
+    try {
+      localStorage.removeItem(this.prefix + key);
+    } catch {
+      // Storage unavailable
+    }
+  }
+}
+
+/**
+ * Keeps drafts in memory (lost on reload). Useful for tests and SSR.
+ */
+export class InMemoryDraftStorage implements FormDraftStorage {
+  private readonly drafts = new Map<string, FormDraft>();
+
+  get(key: string): FormDraft | null {
+    return this.drafts.get(key) ?? null;
+  }
+
+  set(key: string, draft: FormDraft): void {
+    this.drafts.set(key, draft);
+  }
+
+  remove(key: string): void {
+    this.drafts.delete(key);
+  }
+}
+
+/**
+ * Derive a draft version from the field names and types (including repeater item fields),
+ * so drafts saved for a different form shape are discarded
+ */
+export function getFormDraftVersion(fields: FormField[]): string {
+  const shape = JSON.stringify(fields.map(field => [
+    field.name,
+    field.type,
+    field.repeater?.itemFields.map(itemField => [itemField.fieldName, itemField.type])
+  ]));
+
+  // djb2 string hash
+  let hash = 5381;
+  for (let i = 0; i < shape.length; i++) {
+    hash = ((hash << 5) + hash + shape.charCodeAt(i)) | 0;
+  }
+
+  return (hash >>> 0).toString(36);
+}
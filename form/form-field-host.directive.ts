@@ -0,0 +1,84 @@
+import {
+  ComponentRef,
+  Directive,
+  Type,
+  ViewContainerRef,
+  effect,
+  inject,
+  input,
+  output,
+  reflectComponentType,
+  signal,
+  untracked
+} from '@angular/core';
+import type { FormField } from './form.component';
+import type { FormFieldRenderer } from './form-field-renderer';
+
+/**
+ * Renders a registered custom field component and connects it to the form
+ */
+@Directive({
+  selector: '[appFormFieldHost]',
+  standalone: true
+})
+export class FormFieldHostDirective {
+  /** Component to render */
+  component = input.required<Type<FormFieldRenderer>>({ alias: 'appFormFieldHost' });
+
+  field = input.required<FormField>();
+  value = input<any>();
+  disabled = input<boolean>(false);
+  invalid = input<boolean>(false);
+  describedBy = input<string | null>(null);
+
+  valueChange = output<any>();
+  touched = output<void>();
+
+  private readonly viewContainer = inject(ViewContainerRef);
+
+  /** Rendered component and the inputs it declares */
+  private readonly rendered = signal<{ ref: ComponentRef<FormFieldRenderer>; inputs: Set<string> } | null>(null);
+
+  constructor() {
+    // (Re)create the component when it changes
+    effect(() => {
+      const component = this.component();
+      untracked(() => this.render(component));
+    });
+
+    // Pass the field state on
+    effect(() => {
+      const rendered = this.rendered();
+      if (!rendered) return;
+
+      const state: Record<string, unknown> = {
+        value: this.value(),
+        field: this.field(),
+        disabled: this.disabled(),
+        invalid: this.invalid(),
+        describedBy: this.describedBy()
+      };
+
+      Object.entries(state).forEach(([name, value]) => {
+        if (rendered.inputs.has(name)) {
+          rendered.ref.setInput(name, value);
+        }
+      });
+    });
+  }
+
+  /**
+   * Create the component and forward its outputs
+   */
+  private render(component: Type<FormFieldRenderer>): void {
+    this.viewContainer.clear();
+
+    const ref = this.viewContainer.createComponent(component);
+    const inputs = new Set(reflectComponentType(component)?.inputs.map(i => i.templateName) ?? []);
+
+    ref.instance.valueChange.subscribe(value => this.valueChange.emit(value));
+    ref.instance.touched.subscribe(() => this.touched.emit());
+
+    this.rendered.set({ ref, inputs });
+  }
+}
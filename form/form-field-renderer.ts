@@ -0,0 +1,76 @@
+import { InjectionToken, InputSignal, OutputEmitterRef, Provider, Type, inject } from '@angular/core';
+import type { FormField } from './form.component';
+
+/**
+ * Contract for a custom field component.
+ *
+ * The form renders the label, help text and error message and runs the field's
+ * validation rules; the component only renders the control. Use `field().name` as
+ * the id of the focusable element so the form label points at it.
+ *
+ * Optional inputs are only set when the component declares them.
+ */
+export interface FormFieldRenderer<V = any> {
+  /** Current value */
+  value: InputSignal<V>;
+  /** Emit a new value */
+  valueChange: OutputEmitterRef<V>;
+  /** Emit when the user leaves the control (shows validation errors) */
+  touched: OutputEmitterRef<void>;
+  /** Field definition */
+  field?: InputSignal<FormField>;
+  /** Disabled by `disabled`, `enabledWhen` or the form's loading state */
+  disabled?: InputSignal<boolean>;
+  /** Whether an error is shown for the field (e.g. for `aria-invalid` and error styling) */
+  invalid?: InputSignal<boolean>;
+  /** Id of the help text or error element (for `aria-describedby`) */
+  describedBy?: InputSignal<string | null>;
+}
+
+/**
+ * Custom field components keyed by field `type`
+ */
+export type FormFieldRenderers = Record<string, Type<FormFieldRenderer>>;
+
+/**
+ * Registered custom field components. Use `provideFormFieldRenderers()` to register them.
+ */
+export const FORM_FIELD_RENDERERS = new InjectionToken<FormFieldRenderers[]>('FORM_FIELD_RENDERERS');
+
+/**
+ * Renderers registered at an injector merged with those of its ancestors
+ */
+export const MERGED_FORM_FIELD_RENDERERS = new InjectionToken<FormFieldRenderers>('MERGED_FORM_FIELD_RENDERERS');
+
+/**
+ * Register custom field components for FormComponent, keyed by field `type`.
+ * Can be used in application, route or component providers. Registrations from
+ * every level are merged; for the same type, the registration nearest the form wins
+ * (and the last one within a level). Built-in types can't be replaced.
+ *
+ * @example
+ * ```typescript
+ * bootstrapApplication(AppComponent, {
+ *   providers: [
+ *     provideFormFieldRenderers({ postcode: PostcodeLookupComponent })
+ *   ]
+ * });
+ *
+ * // { name: 'postcode', label: 'Postcode', type: 'postcode', required: true }
+ * ```
+ */
+export function provideFormFieldRenderers(renderers: FormFieldRenderers): Provider {
+  return [
+    { provide: FORM_FIELD_RENDERERS, useValue: renderers, multi: true },
+    { provide: MERGED_FORM_FIELD_RENDERERS, useFactory: mergeFormFieldRenderers }
+  ];
+}
+
+/**
+ * Merge the renderers registered at this level over those of the parent injectors
+ */
+function mergeFormFieldRenderers(): FormFieldRenderers {
+  const inherited = inject(MERGED_FORM_FIELD_RENDERERS, { skipSelf: true, optional: true }) ?? {};
+  const own = inject(FORM_FIELD_RENDERERS, { self: true, optional: true }) ?? [];
+  return Object.assign({}, inherited, ...own);
+}
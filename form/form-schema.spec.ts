@@ -0,0 +1,142 @@
+import { JsonSchema, formFieldsToSchema, schemaToFormFields } from './form-schema';
+
+describe('form-schema', () => {
+  const schema: JsonSchema = {
+    type: 'object',
+    properties: {
+      name: { type: 'string', title: 'Full name', minLength: 2, maxLength: 80 },
+      email: { type: 'string', title: 'Email', format: 'email' },
+      age: { type: 'integer', title: 'Age', minimum: 18, maximum: 120 },
+      contacts: {
+        type: 'array',
+        title: 'Contacts',
+        minItems: 1,
+        items: {
+          type: 'object',
+          title: 'Contact',
+          properties: {
+            phone: { type: 'string', title: 'Phone', minLength: 8, maxLength: 12, pattern: '^\\+?\\d+$' },
+            email: { type: 'string', title: 'Email', format: 'email', maxLength: 120 },
+            website: { type: 'string', title: 'Website', format: 'uri' },
+            share: { type: 'number', title: 'Share', minimum: 0, maximum: 100 }
+          },
+          required: ['phone']
+        }
+      }
+    },
+    required: ['name', 'email']
+  };
+
+  it('should map string rules onto form fields', () => {
+    const [name, email] = schemaToFormFields(schema);
+
+    expect(name).toEqual(jasmine.objectContaining({
+      type: 'text',
+      required: true,
+      validation: { minLength: 2, maxLength: 80 }
+    }));
+    expect(email).toEqual(jasmine.objectContaining({ type: 'email', validation: { email: true } }));
+  });
+
+  it('should map repeater item string rules onto item validation', () => {
+    const contacts = schemaToFormFields(schema).find(field => field.name === 'contacts')!;
+    const [phone, email, website, share] = contacts.repeater!.itemFields;
+
+    expect(phone.required).toBeTrue();
+    expect(phone.validation?.minLength).toBe(8);
+    expect(phone.validation?.maxLength).toBe(12);
+    expect(phone.validation?.pattern?.test('+4712345678')).toBeTrue();
+    expect(email.type).toBe('email');
+    expect(email.validation).toEqual({ maxLength: 120, email: true });
+    expect(website.type).toBe('url');
+    expect(website.validation).toEqual({ url: true });
+    expect(share.validation).toBeUndefined();
+  });
+
+  it('should round-trip a schema through form fields', () => {
+    expect(formFieldsToSchema(schemaToFormFields(schema))).toEqual(schema);
+  });
+
+  describe('enum', () => {
+    it('should keep non-string enum values', () => {
+      const [term, insured] = schemaToFormFields({
+        type: 'object',
+        properties: {
+          term: { type: 'integer', enum: [12, 24, 36] },
+          insured: { type: 'boolean', enum: [true, false] }
+        }
+      });
+
+      expect(term.type).toBe('select');
+      expect(term.options).toEqual([
+        { label: '12', value: 12 },
+        { label: '24', value: 24 },
+        { label: '36', value: 36 }
+      ]);
+      expect(insured.options?.map(option => option.value)).toEqual([true, false]);
+    });
+
+    it('should write enum types from the option values', () => {
+      const schema = formFieldsToSchema([
+        { name: 'term', label: 'Term', type: 'select', options: [{ label: '1 year', value: 12 }] },
+        { name: 'insured', label: 'Insured', type: 'radio', options: [{ label: 'Yes', value: true }] },
+        { name: 'mixed', label: 'Mixed', type: 'select', options: [{ label: 'One', value: 1 }, { label: 'Two', value: 'two' }] }
+      ]);
+
+      expect(schema.properties!['term']).toEqual({ type: 'number', enum: [12], title: 'Term' });
+      expect(schema.properties!['insured']).toEqual({ type: 'boolean', enum: [true], title: 'Insured' });
+      expect(schema.properties!['mixed']).toEqual({ enum: [1, 'two'], title: 'Mixed' });
+    });
+  });
+
+  describe('nested objects', () => {
+    const nested: JsonSchema = {
+      type: 'object',
+      properties: {
+        period: {
+          type: 'object',
+          title: 'Period',
+          properties: {
+            start: { type: 'string', format: 'date' },
+            end: { type: 'string', format: 'date' }
+          }
+        },
+        address: {
+          type: 'object',
+          properties: { street: { type: 'string' } }
+        }
+      }
+    };
+
+    it('should map a start/end date object to a date range', () => {
+      const [period] = schemaToFormFields(nested);
+
+      expect(period).toEqual({ name: 'period', label: 'Period', type: 'daterange' });
+      expect(formFieldsToSchema([period]).properties!['period']).toEqual(nested.properties!['period']);
+    });
+
+    it('should skip other nested objects', () => {
+      expect(schemaToFormFields(nested).map(field => field.name)).toEqual(['period']);
+    });
+  });
+
+  describe('pattern', () => {
+    it('should compile patterns with the unicode flag', () => {
+      const [name] = schemaToFormFields({
+        type: 'object',
+        properties: { name: { type: 'string', pattern: '^\\p{L}+$' } }
+      });
+
+      expect(name.validation?.pattern?.flags).toBe('u');
+      expect(name.validation?.pattern?.test('Ærlig')).toBeTrue();
+    });
+
+    it('should drop regex flags that JSON Schema cannot express', () => {
+      const schema = formFieldsToSchema([
+        { name: 'code', label: 'Code', type: 'text', validation: { pattern: /^[a-z]+$/i } }
+      ]);
+
+      expect(schema.properties!['code'].pattern).toBe('^[a-z]+$');
+    });
+  });
+});
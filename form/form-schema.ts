@@ -0,0 +1,404 @@
+import type { FormField, FormFieldValidation } from './form.component';
+import type { RepeaterConfig, RepeaterFieldConfig, RepeaterFieldValidation } from '../repeater-field/repeater-field.component';
+
+/**
+ * JSON Schema primitive types
+ */
+export type JsonSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+/**
+ * Supported subset of JSON Schema (draft 2020-12)
+ */
+export interface JsonSchema {
+  type?: JsonSchemaType | JsonSchemaType[];
+  title?: string;
+  description?: string;
+  default?: any;
+  enum?: any[];
+  /** Supported formats: 'email', 'uri', 'date' */
+  format?: string;
+  minLength?: number;
+  maxLength?: number;
+  minimum?: number;
+  maximum?: number;
+  pattern?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+}
+
+/**
+ * Convert an object JSON Schema into form fields.
+ *
+ * Properties are mapped in declaration order; arrays of objects become
+ * `repeater` fields and `{ start, end }` date objects become `daterange` fields.
+ * Other nested objects and properties with unsupported types are skipped.
+ * Enum values keep their type (numbers and booleans stay non-strings), and
+ * patterns are compiled with the `u` flag.
+ *
+ * @example
+ * ```typescript
+ * const fields = schemaToFormFields(customerSchema);
+ * ```
+ */
+export function schemaToFormFields(schema: JsonSchema): FormField[] {
+  const required = new Set(schema.required ?? []);
+  const fields: FormField[] = [];
+
+  Object.entries(schema.properties ?? {}).forEach(([name, property]) => {
+    const field = propertyToFormField(name, property, required.has(name));
+    if (field) fields.push(field);
+  });
+
+  return fields;
+}
+
+/**
+ * Convert form fields into an object JSON Schema (the reverse of `schemaToFormFields`).
+ *
+ * Declarative rules are mapped; `custom`, async and conditional rules
+ * (`visibleWhen`, `requiredWhen`, ...) and `file` fields have no JSON Schema equivalent and are left out.
+ * JSON Schema patterns have no flags, so only `pattern.source` is kept (e.g. an `i` flag is lost).
+ */
+export function formFieldsToSchema(fields: FormField[]): JsonSchema {
+  const properties: Record<string, JsonSchema> = {};
+  const required: string[] = [];
+
+  fields.forEach(field => {
+    if (field.type === 'file') return;
+
+    properties[field.name] = formFieldToProperty(field);
+    if (field.required || field.validation?.required) {
+      required.push(field.name);
+    }
+  });
+
+  return {
+    type: 'object',
+    properties,
+    ...(required.length > 0 ? { required } : {})
+  };
+}
+
+// ========================================
+// Schema → Form Fields
+// ========================================
+
+/**
+ * Map a schema property to a form field
+ */
+function propertyToFormField(name: string, property: JsonSchema, required: boolean): FormField | null {
+  const type = getSchemaType(property);
+  const field: FormField = {
+    name,
+    label: property.title ?? humanize(name),
+    type: 'text',
+    ...(required ? { required: true } : {}),
+    ...(property.default !== undefined ? { value: property.default } : {}),
+    ...(property.description ? { helpText: property.description } : {})
+  };
+
+  if (property.enum) {
+    return { ...field, type: 'select', options: toOptions(property.enum) };
+  }
+
+  switch (type) {
+    case 'string': {
+      const validation = getStringValidation(property);
+
+      if (property.format === 'email') {
+        return withValidation({ ...field, type: 'email' }, { ...validation, email: true });
+      }
+      if (property.format === 'uri') {
+        return withValidation({ ...field, type: 'url' }, { ...validation, url: true });
+      }
+      return withValidation({ ...field, type: property.format === 'date' ? 'date' : 'text' }, validation);
+    }
+
+    case 'number':
+    case 'integer':
+      return withValidation({ ...field, type: 'number' }, {
+        min: property.minimum,
+        max: property.maximum,
+        integer: type === 'integer' || undefined
+      });
+
+    case 'boolean':
+      return { ...field, type: 'checkbox' };
+
+    case 'object':
+      return isDateRangeSchema(property) ? { ...field, type: 'daterange' } : null;
+
+    case 'array':
+      if (property.items?.enum) {
+        return { ...field, type: 'multiselect', options: toOptions(property.items.enum) };
+      }
+      if (getSchemaType(property.items ?? {}) !== 'object') return null;
+      return { ...field, type: 'repeater', repeater: itemsToRepeaterConfig(property) };
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Map an array-of-objects schema to a repeater configuration
+ */
+function itemsToRepeaterConfig(property: JsonSchema): RepeaterConfig {
+  const items = property.items ?? {};
+  const required = new Set(items.required ?? []);
+  const itemFields: RepeaterFieldConfig[] = [];
+
+  Object.entries(items.properties ?? {}).forEach(([name, itemProperty]) => {
+    const type = getRepeaterFieldType(itemProperty);
+    if (!type) return;
+
+    const validation: RepeaterFieldValidation = removeUndefined({
+      ...(getSchemaType(itemProperty) === 'string' ? getStringValidation(itemProperty) : {}),
+      email: type === 'email' || undefined,
+      url: type === 'url' || undefined
+    });
+
+    itemFields.push({
+      fieldName: name,
+      label: itemProperty.title ?? humanize(name),
+      type,
+      ...(required.has(name) ? { required: true } : {}),
+      ...(itemProperty.enum ? { options: toOptions(itemProperty.enum) } : {}),
+      ...(itemProperty.minimum !== undefined ? { min: itemProperty.minimum } : {}),
+      ...(itemProperty.maximum !== undefined ? { max: itemProperty.maximum } : {}),
+      ...(getSchemaType(itemProperty) === 'integer' ? { decimals: 0 } : {}),
+      ...(Object.keys(validation).length > 0 ? { validation } : {})
+    });
+  });
+
+  return {
+    itemFields,
+    ...(property.minItems !== undefined ? { minItems: property.minItems } : {}),
+    ...(property.maxItems !== undefined ? { maxItems: property.maxItems } : {}),
+    ...(items.title ? { itemLabel: items.title } : {})
+  };
+}
+
+/**
+ * Map a schema property to a repeater item field type
+ */
+function getRepeaterFieldType(property: JsonSchema): RepeaterFieldConfig['type'] | null {
+  if (property.enum) return 'select';
+
+  switch (getSchemaType(property)) {
+    case 'string':
+      if (property.format === 'email') return 'email';
+      if (property.format === 'uri') return 'url';
+      if (property.format === 'date') return 'date';
+      return 'text';
+    case 'number':
+    case 'integer':
+      return 'number';
+    case 'boolean':
+      return 'checkbox';
+    default:
+      return null;
+  }
+}
+
+// ========================================
+// Form Fields → Schema
+// ========================================
+
+/**
+ * Map a form field to a schema property
+ */
+function formFieldToProperty(field: FormField): JsonSchema {
+  const validation = field.validation ?? {};
+  const property: JsonSchema = {
+    ...getFieldTypeSchema(field.type, field.options, validation),
+    title: field.label,
+    ...(field.helpText ? { description: field.helpText } : {}),
+    ...(field.value !== undefined ? { default: field.value } : {})
+  };
+
+  if (field.type === 'repeater' && field.repeater) {
+    return { ...property, ...repeaterConfigToSchema(field.repeater) };
+  }
+
+  return removeUndefined({
+    ...property,
+    minLength: validation.minLength,
+    maxLength: validation.maxLength,
+    minimum: validation.min,
+    maximum: validation.max,
+    pattern: validation.pattern?.source
+  });
+}
+
+/**
+ * Schema type (and format/enum) for a form field type
+ */
+function getFieldTypeSchema(
+  type: FormField['type'] | RepeaterFieldConfig['type'],
+  options: { label: string; value: any }[] | undefined,
+  validation: FormFieldValidation = {}
+): JsonSchema {
+  switch (type) {
+    case 'email':
+      return { type: 'string', format: 'email' };
+    case 'url':
+      return { type: 'string', format: 'uri' };
+    case 'date':
+      return { type: 'string', format: 'date' };
+    case 'number':
+    case 'currency':
+      return { type: validation.integer ? 'integer' : 'number' };
+    case 'checkbox':
+    case 'toggle':
+      return { type: 'boolean' };
+    case 'select':
+    case 'radio': {
+      const values = (options ?? []).map(option => option.value);
+      const enumType = getEnumType(values);
+      return enumType ? { type: enumType, enum: values } : { enum: values };
+    }
+    case 'multiselect':
+      return { type: 'array', items: getFieldTypeSchema('select', options) };
+    case 'daterange':
+      return {
+        type: 'object',
+        properties: {
+          start: { type: 'string', format: 'date' },
+          end: { type: 'string', format: 'date' }
+        }
+      };
+    case 'repeater':
+      return { type: 'array' };
+    default:
+      return { type: 'string' };
+  }
+}
+
+/**
+ * Map a repeater configuration to an array-of-objects schema
+ */
+function repeaterConfigToSchema(config: RepeaterConfig): JsonSchema {
+  const properties: Record<string, JsonSchema> = {};
+  const required: string[] = [];
+
+  config.itemFields.forEach(field => {
+    properties[field.fieldName] = removeUndefined<JsonSchema>({
+      ...getFieldTypeSchema(field.type, field.options, { integer: field.decimals === 0 || undefined }),
+      title: field.label,
+      minLength: field.validation?.minLength,
+      maxLength: field.validation?.maxLength,
+      minimum: field.min,
+      maximum: field.max,
+      pattern: field.validation?.pattern?.source
+    });
+    if (field.required) required.push(field.fieldName);
+  });
+
+  return removeUndefined<JsonSchema>({
+    type: 'array',
+    minItems: config.minItems,
+    maxItems: config.maxItems,
+    items: removeUndefined<JsonSchema>({
+      type: 'object',
+      title: config.itemLabel,
+      properties,
+      required: required.length > 0 ? required : undefined
+    })
+  });
+}
+
+// ========================================
+// Helpers
+// ========================================
+
+/**
+ * First non-null type of a property
+ */
+function getSchemaType(property: JsonSchema): JsonSchemaType | undefined {
+  const types = Array.isArray(property.type) ? property.type : [property.type];
+  return types.find(type => type && type !== 'null') as JsonSchemaType | undefined;
+}
+
+/**
+ * Check if an object property is a `{ start, end }` date range
+ */
+function isDateRangeSchema(property: JsonSchema): boolean {
+  const keys = Object.keys(property.properties ?? {});
+  return keys.length === 2 && ['start', 'end'].every(key => {
+    const range = property.properties?.[key];
+    return !!range && getSchemaType(range) === 'string' && range.format === 'date';
+  });
+}
+
+/**
+ * Schema type shared by all enum values (none for mixed types)
+ */
+function getEnumType(values: any[]): JsonSchemaType | undefined {
+  if (values.length === 0) return 'string';
+
+  const types = new Set(values.map(value => typeof value));
+  if (types.size > 1) return undefined;
+
+  switch ([...types][0]) {
+    case 'string':
+      return 'string';
+    case 'number':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Length and pattern rules of a string property
+ */
+function getStringValidation(property: JsonSchema): FormFieldValidation {
+  return {
+    minLength: property.minLength,
+    maxLength: property.maxLength,
+    pattern: property.pattern !== undefined ? new RegExp(property.pattern, 'u') : undefined
+  };
+}
+
+/**
+ * Add validation rules that are set
+ */
+function withValidation(field: FormField, validation: FormFieldValidation): FormField {
+  const rules = removeUndefined(validation);
+  return Object.keys(rules).length > 0 ? { ...field, validation: rules } : field;
+}
+
+/**
+ * Select options for enum values
+ */
+function toOptions(values: any[]): { label: string; value: any }[] {
+  return values.map(value => ({ label: String(value), value }));
+}
+
+/**
+ * "monthlyIncome" / "monthly_income" → "Monthly income"
+ */
+function humanize(name: string): string {
+  const words = name
+    .replace(/([a-z\d])([A-Z])/g, '$1 $2')
+    .replace(/[_-]+/g, ' ')
+    .trim()
+    .toLowerCase();
+
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+/**
+ * Drop keys with undefined values
+ */
+function removeUndefined<T extends object>(value: T): T {
+  return Object.fromEntries(
+    Object.entries(value).filter(([, entry]) => entry !== undefined)
+  ) as T;
+}
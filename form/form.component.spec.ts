@@ -0,0 +1,106 @@
+import { ComponentFixture, TestBed, fakeAsync, tick } from '@angular/core/testing';
+import { FormComponent, FormField } from './form.component';
+import { InMemoryDraftStorage } from './form-draft';
+
+describe('FormComponent', () => {
+  let component: FormComponent;
+  let fixture: ComponentFixture<FormComponent>;
+
+  const fields: FormField[] = [
+    { name: 'email', label: 'Email', type: 'email' },
+    { name: 'name', label: 'Name', type: 'text' }
+  ];
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [FormComponent]
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(FormComponent);
+    component = fixture.componentInstance;
+    fixture.componentRef.setInput('fields', fields);
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('should show server errors for fields and the form', () => {
+    fixture.componentRef.setInput('serverErrors', { email: 'Email is already registered', base: 'Try again later' });
+    fixture.detectChanges();
+
+    const fieldError = fixture.nativeElement.querySelector('#email-error');
+    expect(fieldError.textContent.trim()).toBe('Email is already registered');
+    expect(component.formLevelErrors()).toEqual(['Try again later']);
+  });
+
+  it('should clear a server error when the field is edited', () => {
+    fixture.componentRef.setInput('serverErrors', { email: 'Email is already registered' });
+    fixture.detectChanges();
+
+    const input = fixture.nativeElement.querySelector('#email') as HTMLInputElement;
+    input.value = 'new@example.com';
+    input.dispatchEvent(new Event('input'));
+    fixture.detectChanges();
+
+    expect(component.formErrors()['email']).toBeNull();
+    expect(fixture.nativeElement.querySelector('#email-error')).toBeNull();
+  });
+
+  describe('draft autosave', () => {
+    let storage: InMemoryDraftStorage;
+
+    const typeEmail = (value: string) => {
+      component.onFieldChange(fields[0], value);
+      tick(100);
+    };
+
+    beforeEach(() => {
+      storage = new InMemoryDraftStorage();
+      fixture.componentRef.setInput('autosave', { key: 'signup', storage, debounce: 100 });
+      fixture.detectChanges();
+    });
+
+    it('should keep the draft until the submission succeeds', fakeAsync(() => {
+      typeEmail('ola@example.com');
+      component.onSubmit(new Event('submit'));
+
+      expect(storage.get('signup')?.values['email']).toBe('ola@example.com');
+
+      component.submitSucceeded();
+
+      expect(storage.get('signup')).toBeNull();
+      expect(component.isFieldDirty(fields[0])).toBeFalse();
+    }));
+
+    it('should remove a submitted draft when the form is destroyed', fakeAsync(() => {
+      typeEmail('ola@example.com');
+      component.onSubmit(new Event('submit'));
+
+      fixture.destroy();
+
+      expect(storage.get('signup')).toBeNull();
+    }));
+
+    it('should keep the draft when the server rejects the submission', fakeAsync(() => {
+      typeEmail('ola@example.com');
+      component.onSubmit(new Event('submit'));
+      component.setServerErrors({ email: 'Email is already registered' });
+
+      fixture.destroy();
+
+      expect(storage.get('signup')?.values['email']).toBe('ola@example.com');
+    }));
+
+    it('should keep edits made after the submission', fakeAsync(() => {
+      typeEmail('ola@example.com');
+      component.onSubmit(new Event('submit'));
+      typeEmail('kari@example.com');
+
+      fixture.destroy();
+
+      expect(storage.get('signup')?.values['email']).toBe('kari@example.com');
+    }));
+  });
+});
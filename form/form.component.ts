@@ -1,11 +1,31 @@
-import { Component, signal, input, output, computed, effect } from '@angular/core';
+import { Component, OnDestroy, Type, signal, input, output, computed, effect, untracked, inject } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { FormsModule } from '@angular/forms';
+import { Observable, firstValueFrom, isObservable } from 'rxjs';
+import { RepeaterFieldComponent, type RepeaterConfig } from '../repeater-field/repeater-field.component';
+import { CurrencyInputComponent } from '../currency-input/currency-input.component';
+import { ToggleComponent } from '../toggle/toggle.component';
+import {
+  LocalStorageDraftStorage,
+  getFormDraftVersion,
+  type FormAutosaveConfig,
+  type FormDraft,
+  type FormDraftStorage
+} from './form-draft';
+import {
+  FORM_FIELD_RENDERERS,
+  MERGED_FORM_FIELD_RENDERERS,
+  type FormFieldRenderer,
+  type FormFieldRenderers
+} from './form-field-renderer';
+import { FormFieldHostDirective } from './form-field-host.directive';
 
 /**
  * Form field types
  */
-export type FormFieldType = 'text' | 'email' | 'password' | 'number' | 'tel' | 'url' | 'textarea' | 'select' | 'checkbox' | 'radio' | 'date';
+export type FormFieldType =
+  | 'text' | 'email' | 'password' | 'number' | 'tel' | 'url' | 'textarea' | 'select' | 'checkbox' | 'radio' | 'date'
+  | 'currency' | 'toggle' | 'multiselect' | 'file' | 'daterange' | 'repeater';
 
 /**
  * Form field definition
@@ -13,17 +33,54 @@ export type FormFieldType = 'text' | 'email' | 'password' | 'number' | 'tel' | '
 export interface FormField {
   name: string;
   label: string;
-  type: FormFieldType;
+  /** Built-in type, or a type registered with `provideFormFieldRenderers()` */
+  type: FormFieldType | (string & {});
   value?: any;
   placeholder?: string;
   required?: boolean;
   disabled?: boolean;
-  options?: { label: string; value: any }[]; // For select/radio fields
+  options?: { label: string; value: any }[]; // For select/radio/multiselect fields
   validation?: FormFieldValidation;
   helpText?: string;
   rows?: number; // For textarea
+  currency?: string; // For currency fields (default: 'kr')
+  currencyPosition?: 'prefix' | 'suffix'; // For currency fields (default: 'suffix')
+  decimals?: number; // For currency fields (default: 0)
+  file?: FormFileConfig; // For file fields (value is File[])
+  repeater?: RepeaterConfig; // For repeater fields (value is RepeaterItem[])
+  /** Show the field only when this returns true. Hidden fields are not validated or submitted */
+  visibleWhen?: FormFieldCondition;
+  /** Enable the field only when this returns true */
+  enabledWhen?: FormFieldCondition;
+  /** Require the field only when this returns true */
+  requiredWhen?: FormFieldCondition;
 }
 
+/**
+ * File field configuration
+ */
+export interface FormFileConfig {
+  /** Accepted types, as in the input `accept` attribute (e.g. '.pdf,image/*') */
+  accept?: string;
+  /** Maximum size per file in bytes */
+  maxSize?: number;
+  /** Allow several files (default: false) */
+  multiple?: boolean;
+}
+
+/**
+ * Date range field value (ISO dates, empty string when not set)
+ */
+export interface FormDateRange {
+  start: string;
+  end: string;
+}
+
+/**
+ * Predicate over the current form values
+ */
+export type FormFieldCondition = (values: Record<string, any>) => boolean;
+
 /**
  * Form field validation rules
  */
@@ -33,12 +90,30 @@ export interface FormFieldValidation {
   maxLength?: number;
   min?: number;
   max?: number;
+  /** Value must be a whole number */
+  integer?: boolean;
   pattern?: RegExp;
   email?: boolean;
   url?: boolean;
-  custom?: (value: any) => string | null; // Returns error message or null
+  custom?: (value: any, values: Record<string, any>) => string | null; // Returns error message or null
+  /** Re-validate this field when these fields change (cross-field `custom` rules and conditions) */
+  dependsOn?: string[];
+  /** Async validator, run after all sync rules pass. Resolves to an error message or null */
+  asyncValidator?: (value: any, values: Record<string, any>) => Promise<string | null> | Observable<string | null>;
+  /** Debounce for the async validator in ms (default: 400) */
+  asyncDebounce?: number;
 }
 
+/**
+ * Default debounce for async validators (ms)
+ */
+const ASYNC_DEBOUNCE = 400;
+
+/**
+ * Default debounce for draft autosave (ms)
+ */
+const DRAFT_DEBOUNCE = 1000;
+
 /**
  * Form configuration
  */
@@ -49,6 +124,48 @@ export interface FormConfig {
   showCancel?: boolean;
   showReset?: boolean;
   resetLabel?: string;
+  /** Wizard "next" button label (default: 'Next') */
+  nextLabel?: string;
+  /** Wizard "back" button label (default: 'Back') */
+  backLabel?: string;
+}
+
+/**
+ * Change of a single field value
+ */
+export interface FormValueDiff {
+  previous: any;
+  current: any;
+}
+
+/**
+ * Value change event data
+ */
+export interface FormValueChangeEvent {
+  /** All form values after the change */
+  values: Record<string, any>;
+  /** Changed fields, keyed by field name */
+  changes: Record<string, FormValueDiff>;
+}
+
+/**
+ * Wizard step definition
+ */
+export interface FormStep {
+  id: string;
+  title: string;
+  description?: string;
+  /** Names of the fields on this step. Fields not listed on any step are shown on the last step */
+  fields: string[];
+}
+
+/**
+ * Wizard step change event data
+ */
+export interface FormStepChangeEvent {
+  previousIndex: number;
+  currentIndex: number;
+  step: FormStep;
 }
 
 /**
@@ -58,9 +175,17 @@ export interface FormConfig {
  * and customizable layouts. Built with Angular Signals and reactive patterns.
  *
  * Features:
- * - Multiple field types (text, email, password, textarea, select, checkbox, radio)
+ * - Multiple field types (text, email, password, textarea, select, checkbox, radio, currency,
+ *   toggle, multiselect, file, date range, repeater)
+ * - Custom field components registered via `provideFormFieldRenderers()`
  * - Built-in validation (required, min/max length, pattern, custom validators)
  * - Real-time validation feedback
+ * - Debounced async validators with pending state (submit waits for them)
+ * - Server-side field errors via `serverErrors` / `setServerErrors()`
+ * - Conditional fields (`visibleWhen`, `enabledWhen`, `requiredWhen`) and cross-field validation
+ * - Multi-step wizard mode (`steps`) with per-step validation
+ * - Opt-in draft autosave (`autosave`) with restore/discard prompt
+ * - Dirty tracking (`isDirty`, `dirtyFields`) and per-field value diffs (`valueChanges`)
  * - Flexible layouts (vertical, horizontal, inline)
  * - Loading and disabled states
  * - Accessibility compliant
@@ -78,11 +203,11 @@ export interface FormConfig {
 @Component({
   selector: 'app-form',
   standalone: true,
-  imports: [CommonModule, FormsModule],
+  imports: [CommonModule, FormsModule, RepeaterFieldComponent, CurrencyInputComponent, ToggleComponent, FormFieldHostDirective],
   templateUrl: './form.component.html',
   styleUrl: './form.component.css'
 })
-export class FormComponent {
+export class FormComponent implements OnDestroy {
   // ========================================
   // Inputs
   // ========================================
@@ -109,6 +234,15 @@ export class FormComponent {
   /** Form description */
   description = input<string>();
 
+  /** Server-returned errors keyed by field name (e.g. from a 422 response) */
+  serverErrors = input<Record<string, string> | null>(null);
+
+  /** Wizard steps (wizard mode when not empty) */
+  steps = input<FormStep[]>([]);
+
+  /** Draft autosave (disabled when null) */
+  autosave = input<FormAutosaveConfig | null>(null);
+
   // ========================================
   // Outputs
   // ========================================
@@ -125,6 +259,12 @@ export class FormComponent {
   /** Emitted when form validity changes */
   validityChange = output<boolean>();
 
+  /** Emitted when the wizard step changes */
+  stepChange = output<FormStepChangeEvent>();
+
+  /** Emitted when values change, with the changed fields */
+  valueChanges = output<FormValueChangeEvent>();
+
   // ========================================
   // Internal State
   // ========================================
@@ -132,6 +272,9 @@ export class FormComponent {
   /** Form values */
   readonly formValues = signal<Record<string, any>>({});
 
+  /** Values the form was initialized or last reset with (baseline for dirty tracking) */
+  readonly initialValues = signal<Record<string, any>>({});
+
   /** Form errors */
   readonly formErrors = signal<Record<string, string | null>>({});
 
@@ -141,19 +284,116 @@ export class FormComponent {
   /** Form submitted flag */
   readonly submitted = signal<boolean>(false);
 
+  /** Fields with an async validator in flight */
+  readonly pendingFields = signal<Set<string>>(new Set());
+
+  /** Server errors that don't belong to a field */
+  readonly formLevelErrors = signal<string[]>([]);
+
+  /** Current wizard step index */
+  readonly currentStep = signal<number>(0);
+
+  /** Saved draft waiting for the user to restore or discard it */
+  readonly pendingDraft = signal<FormDraft | null>(null);
+
+  /** Repeater fields whose items are invalid */
+  readonly invalidRepeaters = signal<Set<string>>(new Set());
+
+  /** Repeater fields with item async validation in flight */
+  readonly pendingRepeaters = signal<Set<string>>(new Set());
+
+  /** File field with files dragged over its drop zone */
+  readonly fileDragOver = signal<string | null>(null);
+
+  /** Debounce timer for draft autosave */
+  private draftTimer?: ReturnType<typeof setTimeout>;
+
+  /** The draft holds submitted values that the server hasn't rejected (yet) */
+  private draftSubmitted = false;
+
+  /** Registered custom field components, merged across injectors (the nearest registration wins) */
+  private readonly fieldRenderers: FormFieldRenderers =
+    inject(MERGED_FORM_FIELD_RENDERERS, { optional: true }) ??
+    Object.assign({}, ...(inject(FORM_FIELD_RENDERERS, { optional: true }) ?? []));
+
+  /** Storage used when the autosave config has none */
+  private readonly defaultDraftStorage = new LocalStorageDraftStorage();
+
+  /** Submit or next step requested while async validation was pending */
+  private queuedAction: 'submit' | 'next' | null = null;
+
+  /** Debounce timers for async validators, keyed by field name */
+  private readonly asyncTimers = new Map<string, ReturnType<typeof setTimeout>>();
+
+  /** Latest async run per field; older results are ignored */
+  private readonly asyncRuns = new Map<string, number>();
+
+  /** Last value validated asynchronously and its result, keyed by field name */
+  private readonly asyncResults = new Map<string, { value: any; error: string | null }>();
+
   // ========================================
   // Computed Properties
   // ========================================
 
-  /** Is form valid */
+  /** Is async validation pending */
+  readonly isPending = computed(() => this.pendingFields().size > 0 || this.pendingRepeaters().size > 0);
+
+  /** Fields whose value differs from the initial value */
+  readonly dirtyFields = computed(() => {
+    const values = this.formValues();
+    const initial = this.initialValues();
+    return new Set(this.fields()
+      .filter(field => !this.isSameValue(values[field.name], initial[field.name]))
+      .map(field => field.name));
+  });
+
+  /** Has any value changed from the initial values */
+  readonly isDirty = computed(() => this.dirtyFields().size > 0);
+
+  /** Fields whose `visibleWhen` condition passes */
+  readonly visibleFields = computed(() => {
+    const values = this.formValues();
+    return this.fields().filter(field => !field.visibleWhen || field.visibleWhen(values));
+  });
+
+  /** Draft version for the current field definitions */
+  readonly draftVersion = computed(() => {
+    return this.autosave()?.version ?? getFormDraftVersion(this.fields());
+  });
+
+  /** Is wizard mode */
+  readonly isWizard = computed(() => this.steps().length > 0);
+
+  /** Configuration of the current wizard step */
+  readonly currentStepConfig = computed<FormStep | undefined>(() => this.steps()[this.currentStep()]);
+
+  /** Is the first wizard step */
+  readonly isFirstStep = computed(() => this.currentStep() === 0);
+
+  /** Is the last wizard step (always true outside wizard mode) */
+  readonly isLastStep = computed(() => !this.isWizard() || this.currentStep() >= this.steps().length - 1);
+
+  /** Fields rendered on the current step (or all visible fields) */
+  readonly renderedFields = computed(() => {
+    return this.isWizard() ? this.getStepFields(this.currentStep()) : this.visibleFields();
+  });
+
+  /** Is form valid (hidden fields are ignored) */
   readonly isValid = computed(() => {
     const errors = this.formErrors();
-    return Object.values(errors).every(error => error === null);
+    return !this.isPending() && this.visibleFields().every(field => !errors[field.name]);
   });
 
-  /** Form data */
+  /** Form data (hidden fields are excluded) */
   readonly formData = computed(() => {
-    return this.formValues();
+    const values = this.formValues();
+    const data: Record<string, any> = {};
+
+    this.visibleFields().forEach(field => {
+      data[field.name] = values[field.name];
+    });
+
+    return data;
   });
 
   // ========================================
@@ -173,6 +413,7 @@ export class FormComponent {
       });
 
       this.formValues.set(values);
+      this.initialValues.set(values);
       this.formErrors.set(errors);
     });
 
@@ -180,6 +421,37 @@ export class FormComponent {
     effect(() => {
       this.validityChange.emit(this.isValid());
     });
+
+    // Apply server errors
+    effect(() => {
+      const errors = this.serverErrors();
+      if (errors) {
+        // Don't track form state read while applying, or editing a field would re-apply its error
+        untracked(() => this.setServerErrors(errors));
+      }
+    });
+
+    // Look for a saved draft
+    effect(() => {
+      const autosave = this.autosave();
+      const version = this.draftVersion();
+      if (autosave) {
+        untracked(() => this.loadDraft(autosave, version));
+      }
+    });
+  }
+
+  ngOnDestroy(): void {
+    this.asyncTimers.forEach(timer => clearTimeout(timer));
+    this.asyncTimers.clear();
+
+    // Leaving after a submission that wasn't rejected means it went through
+    if (this.draftSubmitted) {
+      this.clearDraft();
+    } else if (this.draftTimer) {
+      // Don't lose the last edits when the form is torn down mid-debounce
+      this.saveDraft();
+    }
   }
 
   // ========================================
@@ -189,12 +461,21 @@ export class FormComponent {
   /**
    * Get default value for field type
    */
-  private getDefaultValue(type: FormFieldType): any {
+  private getDefaultValue(type: FormField['type']): any {
     switch (type) {
       case 'checkbox':
+      case 'toggle':
         return false;
       case 'number':
         return 0;
+      case 'currency':
+        return null;
+      case 'multiselect':
+      case 'file':
+      case 'repeater':
+        return [];
+      case 'daterange':
+        return { start: '', end: '' };
       default:
         return '';
     }
@@ -204,15 +485,89 @@ export class FormComponent {
    * Handle field value change
    */
   onFieldChange(field: FormField, value: any): void {
-    this.formValues.update(values => ({
-      ...values,
+    this.setValues({
+      ...this.formValues(),
       [field.name]: value
-    }));
+    });
 
     // Validate field if touched or form submitted
     if (this.touchedFields().has(field.name) || this.submitted()) {
       this.validateField(field);
     }
+
+    this.scheduleDraftSave();
+
+    // Re-validate fields that declare a dependency on this one
+    this.fields().forEach(other => {
+      const dependent = other.validation?.dependsOn?.includes(field.name);
+      if (other !== field && dependent && (this.touchedFields().has(other.name) || this.submitted())) {
+        this.validateField(other);
+      }
+    });
+  }
+
+  /**
+   * Set form values and emit `valueChanges` for the fields that changed
+   */
+  private setValues(values: Record<string, any>): void {
+    const previous = this.formValues();
+    const changes: Record<string, FormValueDiff> = {};
+
+    new Set([...Object.keys(previous), ...Object.keys(values)]).forEach(name => {
+      if (!this.isSameValue(previous[name], values[name])) {
+        changes[name] = { previous: previous[name], current: values[name] };
+      }
+    });
+
+    this.formValues.set(values);
+
+    if (Object.keys(changes).length > 0) {
+      this.valueChanges.emit({ values, changes });
+    }
+  }
+
+  /**
+   * Compare two values; arrays and objects (e.g. repeater items) are compared by content
+   */
+  private isSameValue(a: any, b: any): boolean {
+    if (a === b) return true;
+    if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+
+    // Files don't serialize, so compare them by identity
+    if (Array.isArray(a) && Array.isArray(b)) {
+      return a.length === b.length && a.every((item, i) => this.isSameValue(item, b[i]));
+    }
+    if (a instanceof Blob || b instanceof Blob) return false;
+
+    return JSON.stringify(a) === JSON.stringify(b);
+  }
+
+  /**
+   * Check if a field has changed from its initial value
+   */
+  isFieldDirty(field: FormField): boolean {
+    return this.dirtyFields().has(field.name);
+  }
+
+  /**
+   * Check if a field is visible
+   */
+  isFieldVisible(field: FormField): boolean {
+    return !field.visibleWhen || field.visibleWhen(this.formValues());
+  }
+
+  /**
+   * Check if a field is enabled
+   */
+  isFieldEnabled(field: FormField): boolean {
+    return !field.disabled && (!field.enabledWhen || field.enabledWhen(this.formValues()));
+  }
+
+  /**
+   * Check if a field is required
+   */
+  isFieldRequired(field: FormField): boolean {
+    return !!(field.required || field.validation?.required || field.requiredWhen?.(this.formValues()));
   }
 
   /**
@@ -229,36 +584,175 @@ export class FormComponent {
   }
 
   /**
-   * Validate a single field
+   * Validate a single field. Async validators run after the sync rules pass,
+   * debounced unless `immediate` is set.
    */
-  private validateField(field: FormField): void {
+  private validateField(field: FormField, immediate = false): void {
+    this.cancelAsyncValidation(field.name);
+
+    // Hidden and disabled fields are not validated
+    if (!this.isFieldVisible(field) || !this.isFieldEnabled(field)) {
+      this.setFieldError(field.name, null);
+      return;
+    }
+
     const value = this.formValues()[field.name];
     const error = this.getFieldError(field, value);
 
+    const asyncValidator = field.validation?.asyncValidator;
+    if (!error && asyncValidator && !this.isEmpty(value)) {
+      const cached = this.asyncResults.get(field.name);
+      if (cached && cached.value === value) {
+        this.setFieldError(field.name, cached.error);
+        return;
+      }
+
+      this.setFieldError(field.name, null);
+      this.setFieldPending(field.name, true);
+
+      const delay = immediate ? 0 : field.validation?.asyncDebounce ?? ASYNC_DEBOUNCE;
+      this.asyncTimers.set(field.name, setTimeout(() => this.runAsyncValidator(field, value), delay));
+      return;
+    }
+
+    this.setFieldError(field.name, error);
+  }
+
+  /**
+   * Run an async validator and apply its result if it is still current
+   */
+  private async runAsyncValidator(field: FormField, value: any): Promise<void> {
+    this.asyncTimers.delete(field.name);
+
+    const run = (this.asyncRuns.get(field.name) ?? 0) + 1;
+    this.asyncRuns.set(field.name, run);
+
+    let error: string | null;
+    try {
+      const result = field.validation!.asyncValidator!(value, this.formValues());
+      error = await (isObservable(result) ? firstValueFrom(result) : result);
+    } catch {
+      error = `${field.label} could not be validated`;
+    }
+
+    // A newer value is being validated
+    if (this.asyncRuns.get(field.name) !== run) return;
+
+    this.asyncResults.set(field.name, { value, error });
+    this.setFieldError(field.name, error);
+    this.setFieldPending(field.name, false);
+    this.flushQueuedAction();
+  }
+
+  /**
+   * Cancel a scheduled or in-flight async validation
+   */
+  private cancelAsyncValidation(fieldName: string): void {
+    clearTimeout(this.asyncTimers.get(fieldName));
+    this.asyncTimers.delete(fieldName);
+
+    // Invalidate any in-flight run
+    this.asyncRuns.set(fieldName, (this.asyncRuns.get(fieldName) ?? 0) + 1);
+    this.setFieldPending(fieldName, false);
+  }
+
+  /**
+   * Set the error for a field
+   */
+  private setFieldError(fieldName: string, error: string | null): void {
     this.formErrors.update(errors => ({
       ...errors,
-      [field.name]: error
+      [fieldName]: error
     }));
   }
 
+  /**
+   * Mark a field as pending (async validation in flight)
+   */
+  private setFieldPending(fieldName: string, pending: boolean): void {
+    if (this.pendingFields().has(fieldName) === pending) return;
+
+    this.pendingFields.update(fields => {
+      const newFields = new Set(fields);
+      if (pending) {
+        newFields.add(fieldName);
+      } else {
+        newFields.delete(fieldName);
+      }
+      return newFields;
+    });
+  }
+
+  /**
+   * Retry a submit or next step that was waiting for async validation.
+   * Completed async results are cached, so the retry doesn't go pending again.
+   */
+  private flushQueuedAction(): void {
+    if (!this.queuedAction || this.isPending()) return;
+
+    const action = this.queuedAction;
+    this.queuedAction = null;
+
+    if (action === 'next') {
+      this.nextStep();
+    } else {
+      this.submit();
+    }
+  }
+
+  /**
+   * Check if a value is empty
+   */
+  private isEmpty(value: any): boolean {
+    return value === null || value === undefined || value === '' || (Array.isArray(value) && value.length === 0);
+  }
+
   /**
    * Get error message for a field
    */
   private getFieldError(field: FormField, value: any): string | null {
     const validation = field.validation || {};
+    const required = this.isFieldRequired(field);
 
     // Required validation
-    if (validation.required || field.required) {
-      if (value === null || value === undefined || value === '' || (Array.isArray(value) && value.length === 0)) {
-        return `${field.label} is required`;
-      }
+    if (required && (this.isEmpty(value) || (field.type === 'daterange' && (!value.start || !value.end)))) {
+      return `${field.label} is required`;
     }
 
     // Skip other validations if value is empty and not required
-    if (!value && !validation.required && !field.required) {
+    if (!value && !required) {
       return null;
     }
 
+    // Date range validation (ISO dates compare as strings)
+    if (field.type === 'daterange') {
+      if (!!value.start !== !!value.end) {
+        return `${field.label} needs both a start and an end date`;
+      }
+      if (value.start && value.end && value.end < value.start) {
+        return `${field.label} must end on or after the start date`;
+      }
+    }
+
+    // File type and size validation
+    if (field.type === 'file' && field.file) {
+      const fileError = this.getFileError(field, value);
+      if (fileError) {
+        return fileError;
+      }
+    }
+
+    // Repeater item count validation
+    const minItems = field.repeater?.minItems;
+    if (field.type === 'repeater' && minItems !== undefined && (value?.length ?? 0) < minItems) {
+      return `${field.label} requires at least ${minItems} ${minItems === 1 ? 'item' : 'items'}`;
+    }
+
+    // Repeater item validation (errors are shown on the items)
+    if (field.type === 'repeater' && this.invalidRepeaters().has(field.name)) {
+      return `${field.label} has errors`;
+    }
+
     // Min length validation
     if (validation.minLength !== undefined && String(value).length < validation.minLength) {
       return `${field.label} must be at least ${validation.minLength} characters`;
@@ -279,6 +773,11 @@ export class FormComponent {
       return `${field.label} must not exceed ${validation.max}`;
     }
 
+    // Integer validation
+    if (validation.integer && !Number.isInteger(Number(value))) {
+      return `${field.label} must be a whole number`;
+    }
+
     // Email validation
     if (validation.email) {
       const emailPattern = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
@@ -303,7 +802,7 @@ export class FormComponent {
 
     // Custom validation
     if (validation.custom) {
-      const customError = validation.custom(value);
+      const customError = validation.custom(value, this.formValues());
       if (customError) {
         return customError;
       }
@@ -312,6 +811,34 @@ export class FormComponent {
     return null;
   }
 
+  /**
+   * Get the error for the first file that doesn't match `accept` or exceeds `maxSize`
+   */
+  private getFileError(field: FormField, files: File[]): string | null {
+    const { accept, maxSize } = field.file!;
+    const accepted = accept?.split(',').map(type => type.trim().toLowerCase()).filter(Boolean) ?? [];
+
+    for (const file of files) {
+      const name = file.name.toLowerCase();
+      const type = file.type.toLowerCase();
+
+      const matches = accepted.length === 0 || accepted.some(pattern => {
+        if (pattern.startsWith('.')) return name.endsWith(pattern);
+        if (pattern.endsWith('/*')) return type.startsWith(pattern.slice(0, -1));
+        return type === pattern;
+      });
+
+      if (!matches) {
+        return `${file.name} is not an accepted file type`;
+      }
+      if (maxSize !== undefined && file.size > maxSize) {
+        return `${file.name} exceeds the maximum size of ${this.formatFileSize(maxSize)}`;
+      }
+    }
+
+    return null;
+  }
+
   /**
    * Check if field should show error
    */
@@ -330,21 +857,465 @@ export class FormComponent {
     return this.formErrors()[field.name];
   }
 
+  /**
+   * Check if field has async validation in flight
+   */
+  isFieldPending(field: FormField): boolean {
+    return this.pendingFields().has(field.name) || this.pendingRepeaters().has(field.name);
+  }
+
+  /**
+   * Show server-returned errors, e.g. from a 422 response after `formSubmit`.
+   * Errors for unknown field names are shown above the form actions.
+   * A field's server error is cleared when its value changes.
+   */
+  setServerErrors(errors: Record<string, string>): void {
+    const fieldNames = new Set(this.fields().map(field => field.name));
+    const formLevel: string[] = [];
+
+    Object.entries(errors).forEach(([name, error]) => {
+      if (fieldNames.has(name)) {
+        this.cancelAsyncValidation(name);
+        this.setFieldError(name, error);
+      } else {
+        formLevel.push(error);
+      }
+    });
+
+    this.formLevelErrors.set(formLevel);
+    this.touchedFields.update(touched => new Set([...touched, ...Object.keys(errors).filter(name => fieldNames.has(name))]));
+
+    // The submission was rejected, so keep the draft
+    this.draftSubmitted = false;
+  }
+
   /**
    * Handle form submission
    */
   onSubmit(event: Event): void {
     event.preventDefault();
+
+    // Enter on an earlier wizard step moves to the next step
+    if (!this.isLastStep()) {
+      this.nextStep();
+      return;
+    }
+
+    this.submit();
+  }
+
+  /**
+   * Validate all fields and emit `formSubmit` if valid
+   */
+  private submit(): void {
+    if (this.isPending()) {
+      this.queuedAction = 'submit';
+      return;
+    }
+
     this.submitted.set(true);
+    this.formLevelErrors.set([]);
 
-    // Validate all fields
+    // Validate all fields (async validators run without debounce)
     this.fields().forEach(field => {
-      this.validateField(field);
+      this.validateField(field, true);
     });
 
+    // Wait for async validators before emitting
+    if (this.isPending()) {
+      this.queuedAction = 'submit';
+      return;
+    }
+
     // Emit if valid
     if (this.isValid()) {
-      this.formSubmit.emit(this.formValues());
+      this.formSubmit.emit(this.formData());
+      if (this.autosave()?.clearOnSubmit) {
+        this.clearDraft();
+      } else {
+        this.draftSubmitted = true;
+      }
+    } else if (this.isWizard()) {
+      this.goToFirstInvalidStep();
+    }
+  }
+
+  // ========================================
+  // Field Types
+  // ========================================
+
+  /**
+   * Registered custom component for a field type
+   */
+  getFieldRenderer(field: FormField): Type<FormFieldRenderer> | null {
+    return this.fieldRenderers[field.type] ?? null;
+  }
+
+  /**
+   * Add an option to a multiselect field
+   */
+  addOption(field: FormField, value: string): void {
+    // <select> values are strings; map back to the option's own value
+    const option = field.options?.find(o => String(o.value) === value);
+    const selected: any[] = this.getFieldValue(field) ?? [];
+    if (!option || selected.includes(option.value)) return;
+
+    this.onFieldChange(field, [...selected, option.value]);
+  }
+
+  /**
+   * Remove an option from a multiselect field
+   */
+  removeOption(field: FormField, value: any): void {
+    const selected: any[] = this.getFieldValue(field) ?? [];
+    this.onFieldChange(field, selected.filter(v => v !== value));
+    this.onFieldBlur(field);
+  }
+
+  /**
+   * Options of a multiselect field that aren't selected yet
+   */
+  getUnselectedOptions(field: FormField): { label: string; value: any }[] {
+    const selected: any[] = this.getFieldValue(field) ?? [];
+    return (field.options ?? []).filter(option => !selected.includes(option.value));
+  }
+
+  /**
+   * Label of a multiselect option
+   */
+  getOptionLabel(field: FormField, value: any): string {
+    return field.options?.find(option => option.value === value)?.label ?? String(value);
+  }
+
+  /**
+   * Track repeater validity so the form is invalid while a repeater has item errors
+   */
+  onRepeaterValidityChange(field: FormField, valid: boolean): void {
+    this.invalidRepeaters.update(fields => {
+      const newFields = new Set(fields);
+      if (valid) {
+        newFields.delete(field.name);
+      } else {
+        newFields.add(field.name);
+      }
+      return newFields;
+    });
+
+    if (this.touchedFields().has(field.name) || this.submitted()) {
+      this.validateField(field);
+    }
+  }
+
+  /**
+   * Track repeater item async validation, so submit waits for it like for a field's own validator
+   */
+  onRepeaterPendingChange(field: FormField, pending: boolean): void {
+    this.pendingRepeaters.update(fields => {
+      const newFields = new Set(fields);
+      if (pending) {
+        newFields.add(field.name);
+      } else {
+        newFields.delete(field.name);
+      }
+      return newFields;
+    });
+
+    if (!pending) {
+      this.flushQueuedAction();
+    }
+  }
+
+  /**
+   * Update one end of a date range field
+   */
+  onDateRangeChange(field: FormField, part: keyof FormDateRange, value: string): void {
+    this.onFieldChange(field, { ...this.getFieldValue(field), [part]: value });
+  }
+
+  /**
+   * Handle files chosen in the file picker
+   */
+  onFileSelect(field: FormField, event: Event): void {
+    const input = event.target as HTMLInputElement;
+    this.addFiles(field, Array.from(input.files ?? []));
+
+    // Allow choosing the same file again after removing it
+    input.value = '';
+  }
+
+  /**
+   * Handle files dragged over a file drop zone
+   */
+  onFileDragOver(field: FormField, event: DragEvent): void {
+    if (!this.isFieldEnabled(field) || this.loading()) return;
+
+    event.preventDefault();
+    this.fileDragOver.set(field.name);
+  }
+
+  /**
+   * Handle files dropped on a file drop zone
+   */
+  onFileDrop(field: FormField, event: DragEvent): void {
+    event.preventDefault();
+    this.fileDragOver.set(null);
+    if (!this.isFieldEnabled(field) || this.loading()) return;
+
+    this.addFiles(field, Array.from(event.dataTransfer?.files ?? []));
+  }
+
+  /**
+   * Remove a file from a file field
+   */
+  removeFile(field: FormField, file: File): void {
+    const files: File[] = this.getFieldValue(field) ?? [];
+    this.onFieldChange(field, files.filter(f => f !== file));
+  }
+
+  /**
+   * Add files to a file field (replacing the file unless `multiple` is set)
+   */
+  private addFiles(field: FormField, added: File[]): void {
+    if (added.length === 0) return;
+
+    const files: File[] = this.getFieldValue(field) ?? [];
+    this.onFieldChange(field, field.file?.multiple ? [...files, ...added] : added.slice(0, 1));
+
+    // Show type and size errors right away
+    this.onFieldBlur(field);
+  }
+
+  /**
+   * Format a file size for display
+   */
+  formatFileSize(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1).replace(/\.0$/, '')} MB`;
+  }
+
+  // ========================================
+  // Drafts
+  // ========================================
+
+  /**
+   * Restore the saved draft into the form
+   */
+  restoreDraft(): void {
+    const draft = this.pendingDraft();
+    if (!draft) return;
+
+    // Only restore values for fields that still exist
+    const names = new Set(this.fields().map(field => field.name));
+    const restored: Record<string, any> = {};
+    Object.entries(draft.values).forEach(([name, value]) => {
+      if (names.has(name)) restored[name] = value;
+    });
+
+    this.setValues({ ...this.formValues(), ...restored });
+    this.pendingDraft.set(null);
+
+    // Errors shown for the old values would be stale
+    this.fields().forEach(field => {
+      if (this.touchedFields().has(field.name) || this.submitted()) {
+        this.validateField(field);
+      }
+    });
+  }
+
+  /**
+   * Discard the saved draft
+   */
+  discardDraft(): void {
+    this.pendingDraft.set(null);
+    this.clearDraft();
+  }
+
+  /**
+   * Mark the last submission as accepted by the server: removes the draft
+   * and makes the submitted values the baseline for dirty tracking
+   */
+  submitSucceeded(): void {
+    this.initialValues.set({ ...this.formValues() });
+    this.clearDraft();
+  }
+
+  /**
+   * Remove the saved draft, e.g. after the server accepted the submission
+   */
+  clearDraft(): void {
+    clearTimeout(this.draftTimer);
+    this.draftTimer = undefined;
+    this.draftSubmitted = false;
+
+    const autosave = this.autosave();
+    if (autosave) {
+      this.writeDraftStorage(() => this.getDraftStorage(autosave).remove(autosave.key));
+    }
+  }
+
+  /**
+   * Load a saved draft and offer it if it matches the current field definitions
+   */
+  private async loadDraft(autosave: FormAutosaveConfig, version: string): Promise<void> {
+    const storage = this.getDraftStorage(autosave);
+
+    let draft: FormDraft | null;
+    try {
+      draft = await storage.get(autosave.key);
+    } catch {
+      // Storage unavailable; start without a draft
+      return;
+    }
+    if (!draft) return;
+
+    // Drafts saved for different field definitions can't be restored safely
+    if (draft.version !== version) {
+      this.writeDraftStorage(() => storage.remove(autosave.key));
+      return;
+    }
+
+    this.pendingDraft.set(draft);
+  }
+
+  /**
+   * Schedule a debounced draft save
+   */
+  private scheduleDraftSave(): void {
+    const autosave = this.autosave();
+    if (!autosave) return;
+
+    // Editing before answering the restore prompt starts a new draft
+    this.pendingDraft.set(null);
+
+    // Edits after a submission are a new draft
+    this.draftSubmitted = false;
+
+    clearTimeout(this.draftTimer);
+    this.draftTimer = setTimeout(() => this.saveDraft(), autosave.debounce ?? DRAFT_DEBOUNCE);
+  }
+
+  /**
+   * Save the current values as a draft
+   */
+  private saveDraft(): void {
+    clearTimeout(this.draftTimer);
+    this.draftTimer = undefined;
+
+    const autosave = this.autosave();
+    if (!autosave) return;
+
+    // Files can't be serialized, so file fields are left out of drafts
+    const values = { ...this.formValues() };
+    this.fields()
+      .filter(field => field.type === 'file')
+      .forEach(field => delete values[field.name]);
+
+    const draft: FormDraft = {
+      version: this.draftVersion(),
+      savedAt: new Date().toISOString(),
+      values
+    };
+    this.writeDraftStorage(() => this.getDraftStorage(autosave).set(autosave.key, draft));
+  }
+
+  /**
+   * Run a draft storage write. Autosave is best effort, so sync and async failures are ignored
+   */
+  private writeDraftStorage(write: () => void | Promise<void>): void {
+    try {
+      Promise.resolve(write()).catch(() => undefined);
+    } catch {
+      // Synchronous adapter failure
+    }
+  }
+
+  /**
+   * Storage adapter for drafts
+   */
+  private getDraftStorage(autosave: FormAutosaveConfig): FormDraftStorage {
+    return autosave.storage ?? this.defaultDraftStorage;
+  }
+
+  // ========================================
+  // Wizard
+  // ========================================
+
+  /**
+   * Get the visible fields of a wizard step
+   */
+  getStepFields(index: number): FormField[] {
+    const steps = this.steps();
+    const step = steps[index];
+    if (!step) return [];
+
+    const visible = this.visibleFields();
+
+    // The last step also collects fields that aren't assigned to a step
+    if (index === steps.length - 1) {
+      const assigned = new Set(steps.flatMap(s => s.fields));
+      return visible.filter(field => step.fields.includes(field.name) || !assigned.has(field.name));
+    }
+
+    return visible.filter(field => step.fields.includes(field.name));
+  }
+
+  /**
+   * Validate the current step and move to the next one if it is valid
+   */
+  nextStep(): void {
+    if (this.isLastStep()) return;
+
+    if (this.isPending()) {
+      this.queuedAction = 'next';
+      return;
+    }
+
+    const fields = this.getStepFields(this.currentStep());
+
+    // Show errors for every field on the step
+    this.touchedFields.update(touched => new Set([...touched, ...fields.map(field => field.name)]));
+    fields.forEach(field => this.validateField(field, true));
+
+    if (this.isPending()) {
+      this.queuedAction = 'next';
+      return;
+    }
+
+    const errors = this.formErrors();
+    if (fields.every(field => !errors[field.name])) {
+      this.goToStep(this.currentStep() + 1);
+    }
+  }
+
+  /**
+   * Go back one step (values are kept)
+   */
+  previousStep(): void {
+    this.goToStep(this.currentStep() - 1);
+  }
+
+  /**
+   * Go to a step without validating
+   */
+  goToStep(index: number): void {
+    const previousIndex = this.currentStep();
+    const step = this.steps()[index];
+    if (!step || index === previousIndex) return;
+
+    this.currentStep.set(index);
+    this.stepChange.emit({ previousIndex, currentIndex: index, step });
+  }
+
+  /**
+   * Go to the first step with a validation error
+   */
+  private goToFirstInvalidStep(): void {
+    const errors = this.formErrors();
+    const index = this.steps().findIndex((_, i) => this.getStepFields(i).some(field => errors[field.name]));
+
+    if (index !== -1) {
+      this.goToStep(index);
     }
   }
 
@@ -356,24 +1327,54 @@ export class FormComponent {
   }
 
   /**
-   * Handle reset
+   * Handle reset (back to the initial values, or the values last passed to `resetTo()`)
    */
   onReset(): void {
-    // Reset to initial values
-    const values: Record<string, any> = {};
+    this.resetState(this.initialValues());
+    this.goToStep(0);
+    this.discardDraft();
+
+    this.formReset.emit();
+  }
+
+  /**
+   * Reset the form to new values and make them the baseline for dirty tracking,
+   * e.g. after loading a record or once the server accepted a save.
+   * Fields missing from `values` get their default value.
+   */
+  resetTo(values: Record<string, any>): void {
+    const baseline: Record<string, any> = {};
+
+    this.fields().forEach(field => {
+      baseline[field.name] = field.name in values
+        ? values[field.name]
+        : field.value ?? this.getDefaultValue(field.type);
+    });
+
+    this.initialValues.set(baseline);
+    this.resetState(baseline);
+    this.discardDraft();
+  }
+
+  /**
+   * Set values and clear errors, touched state and pending validation
+   */
+  private resetState(values: Record<string, any>): void {
     const errors: Record<string, string | null> = {};
 
     this.fields().forEach(field => {
-      values[field.name] = field.value ?? this.getDefaultValue(field.type);
       errors[field.name] = null;
+      this.cancelAsyncValidation(field.name);
     });
 
-    this.formValues.set(values);
+    this.asyncResults.clear();
+    this.queuedAction = null;
+
+    this.setValues(values);
     this.formErrors.set(errors);
+    this.formLevelErrors.set([]);
     this.touchedFields.set(new Set());
     this.submitted.set(false);
-
-    this.formReset.emit();
   }
 
   /**
@@ -3,5 +3,38 @@ export {
   type FormField,
   type FormFieldType,
   type FormFieldValidation,
-  type FormConfig
+  type FormFieldCondition,
+  type FormFileConfig,
+  type FormDateRange,
+  type FormConfig,
+  type FormStep,
+  type FormStepChangeEvent,
+  type FormValueChangeEvent,
+  type FormValueDiff
 } from './form.component';
+export {
+  schemaToFormFields,
+  formFieldsToSchema,
+  type JsonSchema,
+  type JsonSchemaType
+} from './form-schema';
+export {
+  LocalStorageDraftStorage,
+  InMemoryDraftStorage,
+  getFormDraftVersion,
+  type FormDraft,
+  type FormDraftStorage,
+  type FormAutosaveConfig
+} from './form-draft';
+export {
+  unsavedChangesGuard,
+  confirmUnsavedChanges,
+  type HasUnsavedChanges,
+  type UnsavedChangesGuardOptions
+} from './unsaved-changes.guard';
+export {
+  provideFormFieldRenderers,
+  FORM_FIELD_RENDERERS,
+  type FormFieldRenderer,
+  type FormFieldRenderers
+} from './form-field-renderer';
@@ -0,0 +1,87 @@
+import { ApplicationRef, EnvironmentInjector, createComponent, inject } from '@angular/core';
+import { DOCUMENT } from '@angular/common';
+import type { CanDeactivateFn } from '@angular/router';
+import { ModalComponent } from '../modal/modal.component';
+
+/**
+ * Routed component that can report unsaved changes,
+ * typically by delegating to a FormComponent's `isDirty()`
+ */
+export interface HasUnsavedChanges {
+  hasUnsavedChanges(): boolean;
+}
+
+/**
+ * Unsaved-changes confirm dialog options
+ */
+export interface UnsavedChangesGuardOptions {
+  /** Dialog title (default: 'Unsaved changes') */
+  title?: string;
+  /** Dialog message */
+  message?: string;
+  /** Label of the button that leaves the page (default: 'Leave page') */
+  confirmLabel?: string;
+  /** Label of the button that stays on the page (default: 'Stay') */
+  cancelLabel?: string;
+}
+
+/**
+ * Create a `CanDeactivate` guard that asks for confirmation in a ModalComponent
+ * before leaving a component with unsaved changes.
+ *
+ * @example
+ * ```typescript
+ * { path: 'customers/:id', component: CustomerEditPage, canDeactivate: [unsavedChangesGuard()] }
+ * ```
+ */
+export function unsavedChangesGuard(
+  options: UnsavedChangesGuardOptions = {}
+): CanDeactivateFn<HasUnsavedChanges> {
+  return component => {
+    if (!component?.hasUnsavedChanges()) {
+      return true;
+    }
+
+    return confirmUnsavedChanges(options);
+  };
+}
+
+/**
+ * Open the confirm dialog. Resolves to true when the user chooses to leave.
+ * Must be called in an injection context.
+ */
+export function confirmUnsavedChanges(options: UnsavedChangesGuardOptions = {}): Promise<boolean> {
+  const appRef = inject(ApplicationRef);
+  const environmentInjector = inject(EnvironmentInjector);
+  const document = inject(DOCUMENT);
+
+  const message = document.createElement('p');
+  message.textContent = options.message ?? 'You have unsaved changes. Leave this page and discard them?';
+
+  const modalRef = createComponent(ModalComponent, {
+    environmentInjector,
+    projectableNodes: [[message]]
+  });
+
+  modalRef.setInput('isOpen', true);
+  modalRef.setInput('title', options.title ?? 'Unsaved changes');
+  modalRef.setInput('primaryButtonLabel', options.confirmLabel ?? 'Leave page');
+  modalRef.setInput('secondaryButtonLabel', options.cancelLabel ?? 'Stay');
+  modalRef.setInput('config', { size: 'sm', closeOnOverlayClick: true, closeOnEscape: true, showCloseButton: true, centered: true });
+
+  document.body.appendChild(modalRef.location.nativeElement);
+  appRef.attachView(modalRef.hostView);
+
+  return new Promise<boolean>(resolve => {
+    const done = (leave: boolean) => {
+      // Destroying the modal restores focus and scrolling and removes its keydown listener
+      appRef.detachView(modalRef.hostView);
+      modalRef.destroy();
+      resolve(leave);
+    };
+
+    modalRef.instance.primaryAction.subscribe(() => done(true));
+    modalRef.instance.secondaryAction.subscribe(() => done(false));
+    modalRef.instance.close.subscribe(() => done(false));
+  });
+}
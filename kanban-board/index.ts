@@ -1,10 +1,17 @@
 export {
   KanbanBoardComponent,
   type KanbanColumn,
+  type KanbanMovePredicate,
   type KanbanItemMoveEvent,
+  type KanbanSwimlane,
   type KanbanCardConfig
 } from './kanban-board.component';
 
 // Re-export child components for convenience
 export { KanbanColumnComponent, type KanbanDropEvent } from '../kanban-column';
-export { KanbanCardComponent, type KanbanCardBadge } from '../kanban-card';
+export {
+  KanbanCardComponent,
+  type KanbanCardBadge,
+  type KanbanCardKeyboardAction,
+  type KanbanCardPointerEvent
+} from '../kanban-card';
@@ -0,0 +1,270 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { By } from '@angular/platform-browser';
+import { KanbanBoardComponent, KanbanColumn, KanbanItemMoveEvent } from './kanban-board.component';
+import { KanbanColumnComponent } from '../kanban-column/kanban-column.component';
+
+interface Ticket {
+  id: number;
+  title: string;
+  status: string;
+  priority?: number;
+}
+
+describe('KanbanBoardComponent', () => {
+  let component: KanbanBoardComponent;
+  let fixture: ComponentFixture<KanbanBoardComponent>;
+  let moves: KanbanItemMoveEvent[];
+
+  const columns: KanbanColumn[] = [
+    { id: 'todo', title: 'To do' },
+    { id: 'doing', title: 'Doing' },
+    { id: 'done', title: 'Done' }
+  ];
+
+  const tickets: Ticket[] = [
+    { id: 1, title: 'Credit check', status: 'todo', priority: 1 },
+    { id: 2, title: 'Valuation', status: 'todo', priority: 2 },
+    { id: 3, title: 'Signing', status: 'todo', priority: 3 },
+    { id: 4, title: 'Onboarding', status: 'doing', priority: 1 }
+  ];
+
+  /** Drag a ticket from its column and drop it in a column, like KanbanColumnComponent does */
+  const drop = (ticket: Ticket, columnId: string, index?: number) => {
+    component.onCardDragStart(ticket, ticket.status);
+    component.onItemDropped({ item: ticket, columnId, index });
+  };
+
+  /** Lay out a column's cards 100px apart, each 80px high (the dragged card is hidden) */
+  const layOutCards = (columnId: string) => {
+    const column = fixture.debugElement.query(By.css(`[data-column-id="${columnId}"]`));
+    column.queryAll(By.css('[data-kanban-item]:not(.dragging)')).forEach((card, index) => {
+      spyOn(card.nativeElement, 'getBoundingClientRect').and.returnValue({ top: index * 100, height: 80 } as DOMRect);
+    });
+  };
+
+  const getColumnComponent = (columnId: string): KanbanColumnComponent =>
+    fixture.debugElement.queryAll(By.directive(KanbanColumnComponent))
+      .map(column => column.componentInstance as KanbanColumnComponent)
+      .find(column => column.columnId() === columnId)!;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [KanbanBoardComponent]
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(KanbanBoardComponent);
+    component = fixture.componentInstance;
+    fixture.componentRef.setInput('columns', columns);
+    fixture.componentRef.setInput('items', tickets);
+    fixture.componentRef.setInput('groupByField', 'status');
+    fixture.componentRef.setInput('cardConfig', { titleField: 'title' });
+    fixture.detectChanges();
+
+    moves = [];
+    component.itemMoved.subscribe(event => moves.push(event));
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  describe('moving items', () => {
+    it('should count the target index without the moved item when moving down a column', () => {
+      drop(tickets[0], 'todo', 1);
+
+      expect(moves).toEqual([{ item: tickets[0], fromColumn: 'todo', toColumn: 'todo', fromIndex: 0, toIndex: 1 }]);
+    });
+
+    it('should move an item up a column', () => {
+      drop(tickets[2], 'todo', 0);
+
+      expect(moves).toEqual([{ item: tickets[2], fromColumn: 'todo', toColumn: 'todo', fromIndex: 2, toIndex: 0 }]);
+    });
+
+    it('should not emit when an item is dropped at its own position', () => {
+      drop(tickets[1], 'todo', 1);
+
+      expect(moves).toEqual([]);
+    });
+
+    it('should move an item to another column', () => {
+      drop(tickets[1], 'doing', 0);
+
+      expect(moves).toEqual([{ item: tickets[1], fromColumn: 'todo', toColumn: 'doing', fromIndex: 1, toIndex: 0 }]);
+    });
+
+    it('should drop at the end of the column without a target index', () => {
+      drop(tickets[0], 'doing');
+      drop(tickets[0], 'todo');
+
+      expect(moves.map(move => move.toIndex)).toEqual([1, 2]);
+    });
+
+    it('should clamp a target index past the end of the column', () => {
+      drop(tickets[0], 'done', 5);
+
+      expect(moves[0].toIndex).toBe(0);
+    });
+  });
+
+  describe('drop position', () => {
+    it('should find the index below the pointer, skipping the dragged card', () => {
+      component.onCardDragStart(tickets[0], 'todo');
+      fixture.detectChanges();
+      layOutCards('todo');
+      const column = getColumnComponent('todo');
+
+      // Cards 2 and 3 are laid out at 0-80px and 100-180px
+      expect(column.getDropIndex(10)).toBe(0);
+      expect(column.getDropIndex(50)).toBe(1);
+      expect(column.getDropIndex(150)).toBe(2);
+    });
+
+    it('should move a card down its column when dropped below the next card', () => {
+      component.onCardDragStart(tickets[0], 'todo');
+      fixture.detectChanges();
+      layOutCards('todo');
+
+      component.onItemDropped({ item: tickets[0], columnId: 'todo', index: getColumnComponent('todo').getDropIndex(50) });
+
+      expect(moves).toEqual([{ item: tickets[0], fromColumn: 'todo', toColumn: 'todo', fromIndex: 0, toIndex: 1 }]);
+    });
+
+    it('should drop a touch-dragged card in the column under the pointer', () => {
+      const doingBody = fixture.debugElement.query(By.css('[data-column-id="doing"] .kanban-column-body'));
+      spyOn(document, 'elementFromPoint').and.returnValue(doingBody.nativeElement);
+
+      component.onCardPointerDragStart(tickets[1], 'todo', { clientX: 0, clientY: 0 });
+      fixture.detectChanges();
+      layOutCards('doing');
+      component.onCardPointerDragEnd({ clientX: 400, clientY: 500 });
+
+      expect(moves).toEqual([{ item: tickets[1], fromColumn: 'todo', toColumn: 'doing', fromIndex: 1, toIndex: 1 }]);
+    });
+
+    it('should not move a touch-dragged card released outside the board', () => {
+      spyOn(document, 'elementFromPoint').and.returnValue(document.body);
+
+      component.onCardPointerDragStart(tickets[1], 'todo', { clientX: 0, clientY: 0 });
+      component.onCardPointerDragEnd({ clientX: 400, clientY: 500 });
+
+      expect(moves).toEqual([]);
+    });
+  });
+
+  describe('orderField', () => {
+    const unordered: Ticket[] = [
+      { id: 1, title: 'Credit check', status: 'todo', priority: 3 },
+      { id: 2, title: 'Valuation', status: 'todo' },
+      { id: 3, title: 'Signing', status: 'todo', priority: 1 }
+    ];
+
+    beforeEach(() => {
+      fixture.componentRef.setInput('items', unordered);
+      fixture.componentRef.setInput('orderField', 'priority');
+      fixture.detectChanges();
+    });
+
+    it('should sort columns by the order field, with missing values last', () => {
+      expect(component.getColumnItems('todo').map(ticket => ticket.id)).toEqual([3, 1, 2]);
+
+      const titles = fixture.debugElement.queryAll(By.css('[data-column-id="todo"] [data-kanban-item]'))
+        .map(card => card.nativeElement.textContent);
+      expect(titles[0]).toContain('Signing');
+      expect(titles[2]).toContain('Valuation');
+    });
+
+    it('should report positions in the sorted order', () => {
+      drop(unordered[0], 'todo', 0);
+
+      expect(moves).toEqual([{ item: unordered[0], fromColumn: 'todo', toColumn: 'todo', fromIndex: 1, toIndex: 0 }]);
+    });
+  });
+
+  describe('canMove', () => {
+    let canMove: jasmine.Spy;
+    let rejections: KanbanItemMoveEvent[];
+
+    beforeEach(() => {
+      rejections = [];
+      component.moveRejected.subscribe(event => rejections.push(event));
+    });
+
+    it('should check moves between columns', () => {
+      canMove = jasmine.createSpy('canMove').and.returnValue(false);
+      fixture.componentRef.setInput('canMove', canMove);
+      fixture.detectChanges();
+
+      drop(tickets[0], 'doing', 0);
+
+      expect(canMove).toHaveBeenCalledWith(tickets[0], 'todo', 'doing');
+      expect(moves).toEqual([]);
+      expect(rejections.length).toBe(1);
+    });
+
+    it('should not check reordering within a column', () => {
+      canMove = jasmine.createSpy('canMove').and.returnValue(false);
+      fixture.componentRef.setInput('canMove', canMove);
+      fixture.detectChanges();
+
+      drop(tickets[0], 'todo', 2);
+
+      expect(canMove).not.toHaveBeenCalled();
+      expect(moves.length).toBe(1);
+    });
+
+    describe('with swimlanes', () => {
+      const deals = [
+        { id: 1, title: 'Credit check', status: 'todo', advisor: 'ola' },
+        { id: 2, title: 'Valuation', status: 'todo', advisor: 'ola' },
+        { id: 3, title: 'Signing', status: 'todo', advisor: 'kari' }
+      ];
+
+      /** Deals stay with their advisor */
+      const sameLane = (item: any, fromColumn: string, toColumn: string, fromLane?: string, toLane?: string) =>
+        fromLane === toLane;
+
+      beforeEach(() => {
+        canMove = jasmine.createSpy('canMove').and.callFake(sameLane);
+        fixture.componentRef.setInput('items', deals);
+        fixture.componentRef.setInput('swimlaneField', 'advisor');
+        fixture.componentRef.setInput('canMove', canMove);
+        fixture.detectChanges();
+      });
+
+      it('should check moves to another lane in the same column', () => {
+        component.onCardDragStart(deals[0], 'todo', 'ola');
+        component.onItemDropped({ item: deals[0], columnId: 'todo', index: 0 }, 'kari');
+
+        expect(canMove).toHaveBeenCalledWith(deals[0], 'todo', 'todo', 'ola', 'kari');
+        expect(moves).toEqual([]);
+        expect(rejections).toEqual([{
+          item: deals[0],
+          fromColumn: 'todo',
+          toColumn: 'todo',
+          fromIndex: 0,
+          toIndex: 0,
+          fromLane: 'ola',
+          toLane: 'kari'
+        }]);
+      });
+
+      it('should pass the lanes for moves to another column', () => {
+        component.onCardDragStart(deals[0], 'todo', 'ola');
+        component.onItemDropped({ item: deals[0], columnId: 'doing', index: 0 }, 'ola');
+
+        expect(canMove).toHaveBeenCalledWith(deals[0], 'todo', 'doing', 'ola', 'ola');
+        expect(moves.length).toBe(1);
+      });
+
+      it('should disable dropping in the cells of rejected lanes', () => {
+        component.onCardDragStart(deals[0], 'todo', 'ola');
+        fixture.detectChanges();
+
+        expect(component.isDropDisabled('doing', 'ola')).toBeFalse();
+        expect(component.isDropDisabled('todo', 'kari')).toBeTrue();
+        expect(component.isDropDisabled('doing', 'kari')).toBeTrue();
+      });
+    });
+  });
+});
@@ -1,7 +1,12 @@
-import { Component, input, output, computed, signal, TemplateRef, ContentChild, ViewChild, ElementRef, AfterViewInit, OnDestroy } from '@angular/core';
+import { Component, input, output, computed, signal, TemplateRef, ContentChild, ViewChild, ViewChildren, QueryList, ElementRef, AfterViewInit, OnDestroy } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { KanbanColumnComponent, type KanbanDropEvent } from '../kanban-column/kanban-column.component';
-import { KanbanCardComponent, type KanbanCardBadge } from '../kanban-card/kanban-card.component';
+import {
+  KanbanCardComponent,
+  type KanbanCardBadge,
+  type KanbanCardKeyboardAction,
+  type KanbanCardPointerEvent
+} from '../kanban-card/kanban-card.component';
 
 /**
  * Column configuration for Kanban board
@@ -11,8 +16,22 @@ export interface KanbanColumn {
   title: string;
   icon?: string;
   color?: string;
+  /** Work-in-progress limit; the column is marked when it holds more items */
+  wipLimit?: number;
 }
 
+/**
+ * Decides whether an item may move to another column or lane.
+ * Lane ids are only passed with `swimlaneField`.
+ */
+export type KanbanMovePredicate = (
+  item: any,
+  fromColumn: string,
+  toColumn: string,
+  fromLane?: string,
+  toLane?: string
+) => boolean;
+
 /**
  * Item move event data
  */
@@ -20,6 +39,23 @@ export interface KanbanItemMoveEvent {
   item: any;
   fromColumn: string;
   toColumn: string;
+  /** Position in the source column */
+  fromIndex: number;
+  /** Position in the target column, counted without the moved item */
+  toIndex: number;
+  /** Source lane id (only with `swimlaneField`) */
+  fromLane?: string;
+  /** Target lane id (only with `swimlaneField`) */
+  toLane?: string;
+}
+
+/**
+ * Swimlane configuration for Kanban board
+ */
+export interface KanbanSwimlane {
+  /** Lane value as string ('' for items without a value) */
+  id: string;
+  title: string;
 }
 
 /**
@@ -38,11 +74,58 @@ export interface KanbanCardConfig {
   metaInfoFn?: (item: any) => string | undefined;
 }
 
+/**
+ * A column within a lane
+ */
+interface KanbanCell {
+  columnId: string;
+  laneId: string;
+}
+
+/**
+ * Card picked up with the keyboard and its current target
+ */
+interface KanbanKeyboardDrag {
+  item: any;
+  from: KanbanCell;
+  to: KanbanCell;
+  toIndex: number;
+}
+
+/**
+ * Drop position during a mouse or touch drag
+ */
+interface KanbanDropPosition extends KanbanCell {
+  index: number;
+}
+
+/** Lane id of the single lane of a board without swimlanes */
+const NO_LANE = '';
+
+/**
+ * Sort order for `orderField` values (missing values last)
+ */
+function compareOrder(a: any, b: any): number {
+  if (a == null) return b == null ? 0 : 1;
+  if (b == null) return -1;
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/** Distance from the board edge that scrolls the board during a touch drag (px) */
+const AUTO_SCROLL_EDGE = 48;
+
+/** Scroll step per pointer move near the board edge (px) */
+const AUTO_SCROLL_STEP = 16;
+
 /**
  * Kanban Board Component
  *
  * A complete Kanban board with horizontal scrolling columns and drag-and-drop support.
  * Groups items by a specified field and displays them in columns.
+ * Items are shown in input order, or sorted by `orderField`, and can be split
+ * into collapsible horizontal lanes with `swimlaneField`.
+ * Cards can also be moved with the keyboard (Space, arrow keys, Escape) and
+ * dragged on touch screens; all moves emit `itemMoved`.
  *
  * @example
  * ```html
@@ -50,6 +133,7 @@ export interface KanbanCardConfig {
  *   [columns]="stages"
  *   [items]="customers"
  *   [groupByField]="'currentStage'"
+ *   [orderField]="'priority'"
  *   [cardConfig]="{ titleField: 'name', subtitleField: 'email' }"
  *   (itemMoved)="onCustomerMoved($event)"
  *   (itemClicked)="onCustomerClicked($event)">
@@ -70,6 +154,10 @@ export class KanbanBoardComponent implements AfterViewInit, OnDestroy {
 
   @ViewChild('boardContainer') boardContainer?: ElementRef<HTMLElement>;
 
+  @ViewChildren(KanbanCardComponent) cards?: QueryList<KanbanCardComponent>;
+
+  @ViewChildren(KanbanColumnComponent) columnComponents?: QueryList<KanbanColumnComponent>;
+
   // ========================================
   // Inputs
   // ========================================
@@ -86,6 +174,18 @@ export class KanbanBoardComponent implements AfterViewInit, OnDestroy {
   /** Card display configuration */
   cardConfig = input.required<KanbanCardConfig>();
 
+  /** Field name to sort items by within a column (ascending; items without a value last) */
+  orderField = input<string>();
+
+  /** Field name to split the board into horizontal lanes by (e.g. advisor) */
+  swimlaneField = input<string>();
+
+  /** Lane titles and order (optional; by default one lane per value, in order of appearance) */
+  swimlanes = input<KanbanSwimlane[]>();
+
+  /** Rejects moves to another column or lane (e.g. back to an earlier stage); reordering within a cell is always allowed */
+  canMove = input<KanbanMovePredicate>();
+
   /** Empty column message */
   emptyMessage = input<string>('No items');
 
@@ -93,9 +193,12 @@ export class KanbanBoardComponent implements AfterViewInit, OnDestroy {
   // Outputs
   // ========================================
 
-  /** Emitted when an item is moved between columns */
+  /** Emitted when an item is moved to another column or position */
   itemMoved = output<KanbanItemMoveEvent>();
 
+  /** Emitted when a move is rejected by `canMove` */
+  moveRejected = output<KanbanItemMoveEvent>();
+
   /** Emitted when an item card is clicked */
   itemClicked = output<any>();
 
@@ -110,9 +213,9 @@ export class KanbanBoardComponent implements AfterViewInit, OnDestroy {
   // Internal State
   // ========================================
 
-  /** Currently dragged item for tracking source column */
+  /** Currently dragged item for tracking source column and lane */
   private draggedItem = signal<any>(null);
-  private draggedFromColumn = signal<string>('');
+  private draggedFrom = signal<KanbanCell | null>(null);
 
   /** Scroll state for navigation indicators */
   canScrollLeft = signal(false);
@@ -121,6 +224,27 @@ export class KanbanBoardComponent implements AfterViewInit, OnDestroy {
   /** Collapsed columns tracking */
   collapsedColumns = signal<Set<string>>(new Set());
 
+  /** Collapsed swimlanes tracking */
+  collapsedLanes = signal<Set<string>>(new Set());
+
+  /** Card picked up with the keyboard */
+  readonly keyboardDrag = signal<KanbanKeyboardDrag | null>(null);
+
+  /** Card preview following the pointer during a touch drag */
+  readonly pointerGhost = signal<{ item: any; left: number; top: number; width: number } | null>(null);
+
+  /** Drop position under a mouse or touch drag */
+  readonly dropPosition = signal<KanbanDropPosition | null>(null);
+
+  /** Pointer position within the dragged card */
+  private pointerGrabOffset = { x: 0, y: 0 };
+
+  /** Screen reader announcement for keyboard moves */
+  readonly announcement = signal<string>('');
+
+  /** Id of the keyboard instructions element */
+  readonly instructionsId = `kanban-instructions-${Math.random().toString(36).substr(2, 9)}`;
+
   /** Scroll observer cleanup */
   private resizeObserver?: ResizeObserver;
 
@@ -128,46 +252,138 @@ export class KanbanBoardComponent implements AfterViewInit, OnDestroy {
   // Computed Properties
   // ========================================
 
-  /** Items grouped by column */
+  /** Swimlanes (a single unnamed lane without `swimlaneField`) */
+  readonly lanes = computed<KanbanSwimlane[]>(() => {
+    if (!this.swimlaneField()) {
+      return [{ id: NO_LANE, title: '' }];
+    }
+
+    const configured = this.swimlanes();
+    if (configured) return configured;
+
+    const ids = new Set(this.items().map(item => this.getItemLane(item)));
+    return Array.from(ids, id => ({ id, title: id || 'Unassigned' }));
+  });
+
+  /** Items grouped by lane, then by column */
   readonly groupedItems = computed(() => {
     const allItems = this.items();
     const field = this.groupByField();
     const cols = this.columns();
 
-    const grouped = new Map<string, any[]>();
+    const grouped = new Map<string, Map<string, any[]>>();
 
-    // Initialize all columns with empty arrays
-    cols.forEach(col => {
-      grouped.set(col.id, []);
+    // Initialize all cells with empty arrays
+    this.lanes().forEach(lane => {
+      grouped.set(lane.id, new Map(cols.map(col => [col.id, []])));
     });
 
     // Group items by field value
     allItems.forEach(item => {
-      const columnId = item[field];
-      if (grouped.has(columnId)) {
-        grouped.get(columnId)!.push(item);
+      const columnItems = grouped.get(this.getItemLane(item))?.get(item[field]);
+      if (columnItems) {
+        columnItems.push(item);
       }
     });
 
+    const orderField = this.orderField();
+    if (orderField) {
+      grouped.forEach(lane => lane.forEach(columnItems =>
+        columnItems.sort((a, b) => compareOrder(a[orderField], b[orderField]))
+      ));
+    }
+
     return grouped;
   });
 
+  /** Grouped items with the keyboard-dragged card shown at its target position */
+  readonly displayedItems = computed(() => {
+    const grouped = this.groupedItems();
+    const drag = this.keyboardDrag();
+    if (!drag || !this.getCellItems(grouped, drag.from).includes(drag.item)) return grouped;
+
+    const displayed = new Map(Array.from(grouped, ([laneId, lane]) => [laneId, new Map(lane)]));
+    displayed.get(drag.from.laneId)!.set(
+      drag.from.columnId,
+      this.getCellItems(grouped, drag.from).filter(item => item !== drag.item)
+    );
+
+    const target = [...this.getCellItems(displayed, drag.to)];
+    target.splice(drag.toIndex, 0, drag.item);
+    displayed.get(drag.to.laneId)?.set(drag.to.columnId, target);
+
+    return displayed;
+  });
+
+  /** Columns the dragged card can't be moved to, per lane id */
+  readonly rejectedCells = computed(() => {
+    const rejected = new Map<string, Set<string>>();
+    const keyboardDrag = this.keyboardDrag();
+    const item = keyboardDrag ? keyboardDrag.item : this.draggedItem();
+    const from = keyboardDrag ? keyboardDrag.from : this.draggedFrom();
+    if (!item || !from) return rejected;
+
+    this.lanes().forEach(lane => {
+      const columns = this.columns()
+        .filter(col => !this.isMoveAllowed(item, from, { columnId: col.id, laneId: lane.id }))
+        .map(col => col.id);
+      rejected.set(lane.id, new Set(columns));
+    });
+    return rejected;
+  });
+
+  /** Where the drop placeholder goes: before an item, or at the end of the cell (null) */
+  readonly dropPlaceholder = computed(() => {
+    const position = this.dropPosition();
+    if (!position || this.isCellRejected(position)) return null;
+
+    const dragged = this.draggedItem();
+    const others = this.getColumnItems(position.columnId, position.laneId).filter(item => item !== dragged);
+    return { columnId: position.columnId, laneId: position.laneId, before: others[position.index] ?? null };
+  });
+
   // ========================================
   // Methods
   // ========================================
 
   /**
-   * Get items for a specific column
+   * Get items for a specific column, in one lane or all lanes
    */
-  getColumnItems(columnId: string): any[] {
-    return this.groupedItems().get(columnId) || [];
+  getColumnItems(columnId: string, laneId?: string): any[] {
+    const displayed = this.displayedItems();
+    if (laneId !== undefined) {
+      return this.getCellItems(displayed, { columnId, laneId });
+    }
+    return Array.from(displayed.values()).flatMap(lane => lane.get(columnId) || []);
   }
 
   /**
-   * Get item count for a column
+   * Get item count for a column, in one lane or all lanes
    */
-  getColumnCount(columnId: string): number {
-    return this.getColumnItems(columnId).length;
+  getColumnCount(columnId: string, laneId?: string): number {
+    return this.getColumnItems(columnId, laneId).length;
+  }
+
+  /**
+   * Get item count for a lane
+   */
+  getLaneCount(laneId: string): number {
+    return this.columns().reduce((count, col) => count + this.getColumnCount(col.id, laneId), 0);
+  }
+
+  /**
+   * Get the lane id of an item
+   */
+  getItemLane(item: any): string {
+    const field = this.swimlaneField();
+    return field ? String(item[field] ?? '') : NO_LANE;
+  }
+
+  /**
+   * Get the items of a cell from grouped items
+   */
+  private getCellItems(grouped: Map<string, Map<string, any[]>>, cell: KanbanCell): any[] {
+    return grouped.get(cell.laneId)?.get(cell.columnId) || [];
   }
 
   /**
@@ -237,9 +453,9 @@ export class KanbanBoardComponent implements AfterViewInit, OnDestroy {
   /**
    * Handle card drag start
    */
-  onCardDragStart(item: any, columnId: string): void {
+  onCardDragStart(item: any, columnId: string, laneId: string = NO_LANE): void {
     this.draggedItem.set(item);
-    this.draggedFromColumn.set(columnId);
+    this.draggedFrom.set({ columnId, laneId });
   }
 
   /**
@@ -247,28 +463,365 @@ export class KanbanBoardComponent implements AfterViewInit, OnDestroy {
    */
   onCardDragEnd(): void {
     this.draggedItem.set(null);
-    this.draggedFromColumn.set('');
+    this.draggedFrom.set(null);
+    this.dropPosition.set(null);
+  }
+
+  /**
+   * Track the drop position reported by a column during a native drag
+   */
+  onColumnDropIndexChange(columnId: string, index: number | null, laneId: string = NO_LANE): void {
+    const position = this.dropPosition();
+    if (index !== null) {
+      this.dropPosition.set({ columnId, laneId, index });
+    } else if (position?.columnId === columnId && position.laneId === laneId) {
+      this.dropPosition.set(null);
+    }
   }
 
   /**
    * Handle item dropped in column
    */
-  onItemDropped(event: KanbanDropEvent): void {
-    const fromColumn = this.draggedFromColumn();
-    const toColumn = event.columnId;
+  onItemDropped(event: KanbanDropEvent, laneId: string = NO_LANE): void {
+    // The drop data is a serialized copy; prefer the original item
+    const item = this.draggedItem() ?? event.item;
+    this.completeMove(item, this.draggedFrom(), { columnId: event.columnId, laneId }, event.index);
 
-    // Only emit if column changed
-    if (fromColumn && fromColumn !== toColumn) {
-      this.itemMoved.emit({
-        item: event.item,
-        fromColumn,
-        toColumn
-      });
+    // Reset drag state
+    this.draggedItem.set(null);
+    this.draggedFrom.set(null);
+    this.dropPosition.set(null);
+  }
+
+  /**
+   * Emit the move if the column, lane or position changed, or `moveRejected` if `canMove` rejects it.
+   * Without a target index the item goes to the end of the cell.
+   */
+  private completeMove(item: any, from: KanbanCell | null, to: KanbanCell, toIndex?: number): boolean {
+    if (!from) return false;
+
+    const grouped = this.groupedItems();
+    const fromIndex = this.getCellItems(grouped, from).indexOf(item);
+    const others = this.getCellItems(grouped, to).filter(i => i !== item);
+    const index = Math.max(0, Math.min(toIndex ?? others.length, others.length));
+    if (from.columnId === to.columnId && from.laneId === to.laneId && index === fromIndex) return false;
+
+    const event: KanbanItemMoveEvent = {
+      item,
+      fromColumn: from.columnId,
+      toColumn: to.columnId,
+      fromIndex,
+      toIndex: index
+    };
+    if (this.swimlaneField()) {
+      event.fromLane = from.laneId;
+      event.toLane = to.laneId;
     }
 
-    // Reset drag state
+    if (!this.isMoveAllowed(item, from, to)) {
+      this.moveRejected.emit(event);
+      return false;
+    }
+
+    this.itemMoved.emit(event);
+    return true;
+  }
+
+  /**
+   * Check a move against `canMove` (moves within a cell are always allowed)
+   */
+  private isMoveAllowed(item: any, from: KanbanCell, to: KanbanCell): boolean {
+    const canMove = this.canMove();
+    if (!canMove || (from.columnId === to.columnId && from.laneId === to.laneId)) return true;
+
+    return this.swimlaneField()
+      ? canMove(item, from.columnId, to.columnId, from.laneId, to.laneId)
+      : canMove(item, from.columnId, to.columnId);
+  }
+
+  /**
+   * Check if the dragged card can't be moved to a cell
+   */
+  private isCellRejected(cell: KanbanCell): boolean {
+    return this.rejectedCells().get(cell.laneId)?.has(cell.columnId) ?? false;
+  }
+
+  /**
+   * Check if the dragged card can't be moved to a column in a lane
+   */
+  isDropDisabled(columnId: string, laneId: string = NO_LANE): boolean {
+    return this.isCellRejected({ columnId, laneId });
+  }
+
+  /**
+   * Check if a cell is highlighted as keyboard or touch drop target
+   */
+  isDropTarget(columnId: string, laneId: string = NO_LANE): boolean {
+    const position = this.dropPosition();
+    const target = this.keyboardDrag()?.to;
+    return (position?.columnId === columnId && position.laneId === laneId)
+      || (target?.columnId === columnId && target.laneId === laneId);
+  }
+
+  /**
+   * Check if the drop placeholder goes before an item (null: at the end of the cell)
+   */
+  isPlaceholderAt(columnId: string, laneId: string, before: any): boolean {
+    const placeholder = this.dropPlaceholder();
+    return placeholder?.columnId === columnId && placeholder.laneId === laneId && placeholder.before === before;
+  }
+
+  /**
+   * Check if an item is being dragged with the mouse or by touch
+   */
+  isDragged(item: any): boolean {
+    return this.draggedItem() === item;
+  }
+
+  /**
+   * Check if a card is picked up with the keyboard
+   */
+  isGrabbed(item: any): boolean {
+    return this.keyboardDrag()?.item === item;
+  }
+
+  // ========================================
+  // Keyboard Drag
+  // ========================================
+
+  /**
+   * Handle keyboard drag keys on a card
+   */
+  onCardKeyboardDrag(item: any, columnId: string, action: KanbanCardKeyboardAction, laneId: string = NO_LANE): void {
+    if (action === 'grab') {
+      const cell = { columnId, laneId };
+      const index = this.getColumnItems(columnId, laneId).indexOf(item);
+      this.keyboardDrag.set({ item, from: cell, to: cell, toIndex: index });
+      this.announcement.set(
+        `Picked up ${this.getCardTitle(item)}. ${this.describePosition(cell, index)}. ` +
+        'Use the arrow keys to move, Space to drop, Escape to cancel.'
+      );
+      return;
+    }
+
+    const drag = this.keyboardDrag();
+    if (!drag) return;
+
+    const title = this.getCardTitle(drag.item);
+
+    switch (action) {
+      case 'up': {
+        // Past the top of the cell, continue at the bottom of the lane above
+        const lane = this.getAdjacentLane(drag.to.laneId, -1);
+        if (drag.toIndex > 0) {
+          this.moveKeyboardDrag(drag.to, drag.toIndex - 1);
+        } else if (lane) {
+          this.moveKeyboardDrag({ columnId: drag.to.columnId, laneId: lane.id }, Infinity);
+        }
+        break;
+      }
+      case 'down': {
+        // Past the bottom of the cell, continue at the top of the lane below
+        const lane = this.getAdjacentLane(drag.to.laneId, 1);
+        if (drag.toIndex < this.countOtherItems(drag.to, drag.item)) {
+          this.moveKeyboardDrag(drag.to, drag.toIndex + 1);
+        } else if (lane) {
+          this.moveKeyboardDrag({ columnId: drag.to.columnId, laneId: lane.id }, 0);
+        }
+        break;
+      }
+      case 'left':
+      case 'right': {
+        // Collapsed columns have no drop zone
+        const columns = this.columns().filter(col => col.id === drag.to.columnId || !this.isColumnCollapsed(col.id));
+        const index = columns.findIndex(col => col.id === drag.to.columnId);
+        const target = columns[index + (action === 'left' ? -1 : 1)];
+        if (target) {
+          this.moveKeyboardDrag({ columnId: target.id, laneId: drag.to.laneId }, drag.toIndex);
+        }
+        break;
+      }
+      case 'drop': {
+        const position = this.describePosition(drag.to, drag.toIndex);
+        const rejected = this.isCellRejected(drag.to);
+        this.keyboardDrag.set(null);
+        const moved = this.completeMove(drag.item, drag.from, drag.to, drag.toIndex);
+
+        if (moved) {
+          this.announcement.set(`${title} dropped in ${position}.`);
+        } else if (rejected) {
+          this.announcement.set(
+            `${title} can't be moved to ${this.describeCell(drag.to)}. ` +
+            `Returned to ${this.describeCell(drag.from)}.`
+          );
+        } else {
+          this.announcement.set(`${title} dropped back in ${this.describeCell(drag.from)}.`);
+        }
+        break;
+      }
+      case 'cancel':
+        this.keyboardDrag.set(null);
+        this.announcement.set(`Move cancelled. ${title} returned to ${this.describeCell(drag.from)}.`);
+        break;
+    }
+
+    this.focusCard(drag.item);
+  }
+
+  /**
+   * Move the keyboard-dragged card to a cell and position
+   */
+  private moveKeyboardDrag(cell: KanbanCell, index: number): void {
+    const drag = this.keyboardDrag();
+    if (!drag) return;
+
+    const toIndex = Math.max(0, Math.min(index, this.countOtherItems(cell, drag.item)));
+    if (cell.columnId === drag.to.columnId && cell.laneId === drag.to.laneId && toIndex === drag.toIndex) return;
+
+    this.keyboardDrag.set({ ...drag, to: cell, toIndex });
+
+    const notAllowed = this.isCellRejected(cell) ? ' (move not allowed)' : '';
+    this.announcement.set(`${this.getCardTitle(drag.item)}: ${this.describePosition(cell, toIndex)}${notAllowed}`);
+  }
+
+  /**
+   * Count the items of a cell other than the given one
+   */
+  private countOtherItems(cell: KanbanCell, item: any): number {
+    return this.getCellItems(this.groupedItems(), cell).filter(i => i !== item).length;
+  }
+
+  /**
+   * Get the previous or next expanded lane
+   */
+  private getAdjacentLane(laneId: string, offset: -1 | 1): KanbanSwimlane | undefined {
+    const lanes = this.lanes().filter(lane => lane.id === laneId || !this.isLaneCollapsed(lane.id));
+    return lanes[lanes.findIndex(lane => lane.id === laneId) + offset];
+  }
+
+  /**
+   * Describe a card position for screen readers
+   */
+  private describePosition(cell: KanbanCell, index: number): string {
+    const count = this.getColumnCount(cell.columnId, cell.laneId);
+    return `${this.describeCell(cell)}, position ${index + 1} of ${count}`;
+  }
+
+  /**
+   * Describe a cell (column, and lane with swimlanes) for screen readers
+   */
+  private describeCell(cell: KanbanCell): string {
+    const column = this.getColumnTitle(cell.columnId);
+    return this.swimlaneField() ? `${column}, ${this.getLaneTitle(cell.laneId)}` : column;
+  }
+
+  /**
+   * Get a column title by id
+   */
+  private getColumnTitle(columnId: string): string {
+    return this.columns().find(col => col.id === columnId)?.title ?? columnId;
+  }
+
+  /**
+   * Get a lane title by id
+   */
+  private getLaneTitle(laneId: string): string {
+    return this.lanes().find(lane => lane.id === laneId)?.title ?? laneId;
+  }
+
+  /**
+   * Focus a card once the board has re-rendered (moving a card recreates its element)
+   */
+  private focusCard(item: any): void {
+    setTimeout(() => {
+      const card = this.cards?.find(c => c.data() === item || (item?.id !== undefined && c.data()?.id === item.id));
+      card?.focus();
+    });
+  }
+
+  // ========================================
+  // Touch Drag
+  // ========================================
+
+  /**
+   * Handle touch/pen drag start on a card
+   */
+  onCardPointerDragStart(item: any, columnId: string, event: KanbanCardPointerEvent, laneId: string = NO_LANE): void {
+    this.draggedItem.set(item);
+    this.draggedFrom.set({ columnId, laneId });
+
+    const rect = event.rect;
+    this.pointerGrabOffset = rect
+      ? { x: event.clientX - rect.left, y: event.clientY - rect.top }
+      : { x: 0, y: 0 };
+    this.pointerGhost.set({
+      item,
+      left: rect?.left ?? event.clientX,
+      top: rect?.top ?? event.clientY,
+      width: rect?.width ?? 0
+    });
+    this.dropPosition.set(this.getDropPositionAt(event.clientX, event.clientY));
+  }
+
+  /**
+   * Move the drag preview and track the cell under the pointer
+   */
+  onCardPointerDragMove(event: KanbanCardPointerEvent): void {
+    const ghost = this.pointerGhost();
+    if (!ghost) return;
+
+    this.pointerGhost.set({
+      ...ghost,
+      left: event.clientX - this.pointerGrabOffset.x,
+      top: event.clientY - this.pointerGrabOffset.y
+    });
+    this.dropPosition.set(this.getDropPositionAt(event.clientX, event.clientY));
+    this.autoScroll(event.clientX);
+  }
+
+  /**
+   * Drop the card in the cell under the pointer (null when the drag was cancelled)
+   */
+  onCardPointerDragEnd(event: KanbanCardPointerEvent | null): void {
+    const position = event ? this.getDropPositionAt(event.clientX, event.clientY) : null;
+    if (position) {
+      this.completeMove(this.draggedItem(), this.draggedFrom(), position, position.index);
+    }
+
+    this.pointerGhost.set(null);
+    this.dropPosition.set(null);
     this.draggedItem.set(null);
-    this.draggedFromColumn.set('');
+    this.draggedFrom.set(null);
+  }
+
+  /**
+   * Find the expanded column, its lane and the card position at a viewport position
+   */
+  private getDropPositionAt(clientX: number, clientY: number): KanbanDropPosition | null {
+    const columnElement = document.elementFromPoint(clientX, clientY)?.closest<HTMLElement>('[data-column-id]');
+    if (!columnElement || !this.boardContainer?.nativeElement.contains(columnElement)) return null;
+
+    // Collapsed columns have no body (drop zone)
+    const column = this.columnComponents?.find(col => !!col.body && columnElement.contains(col.body.nativeElement));
+    if (!column) return null;
+
+    const laneId = columnElement.closest<HTMLElement>('[data-lane-id]')?.dataset['laneId'] ?? NO_LANE;
+    return { columnId: column.columnId(), laneId, index: column.getDropIndex(clientY) };
+  }
+
+  /**
+   * Scroll the board while the pointer is near its left or right edge
+   */
+  private autoScroll(clientX: number): void {
+    const container = this.boardContainer?.nativeElement;
+    if (!container) return;
+
+    const { left, right } = container.getBoundingClientRect();
+    if (clientX < left + AUTO_SCROLL_EDGE) {
+      container.scrollBy({ left: -AUTO_SCROLL_STEP, behavior: 'instant' });
+    } else if (clientX > right - AUTO_SCROLL_EDGE) {
+      container.scrollBy({ left: AUTO_SCROLL_STEP, behavior: 'instant' });
+    }
   }
 
   /**
@@ -391,4 +944,28 @@ export class KanbanBoardComponent implements AfterViewInit, OnDestroy {
   shouldAutoCollapse(columnId: string): boolean {
     return this.getColumnCount(columnId) === 0 && !this.collapsedColumns().has(columnId);
   }
+
+  // ========================================
+  // Swimlane Collapse
+  // ========================================
+
+  /**
+   * Toggle swimlane collapsed state
+   */
+  toggleLaneCollapse(laneId: string): void {
+    const collapsed = new Set(this.collapsedLanes());
+    if (collapsed.has(laneId)) {
+      collapsed.delete(laneId);
+    } else {
+      collapsed.add(laneId);
+    }
+    this.collapsedLanes.set(collapsed);
+  }
+
+  /**
+   * Check if a swimlane is collapsed
+   */
+  isLaneCollapsed(laneId: string): boolean {
+    return this.collapsedLanes().has(laneId);
+  }
 }
@@ -1 +1 @@
-export { KanbanCardComponent, type KanbanCardBadge } from './kanban-card.component';
+export { KanbanCardComponent, type KanbanCardBadge, type KanbanCardKeyboardAction, type KanbanCardPointerEvent } from './kanban-card.component';
@@ -1,4 +1,4 @@
-import { Component, input, output, computed, signal, HostListener } from '@angular/core';
+import { Component, input, output, computed, signal, HostListener, ViewChild, ElementRef, OnDestroy } from '@angular/core';
 import { CommonModule } from '@angular/common';
 
 /**
@@ -9,11 +9,55 @@ export interface KanbanCardBadge {
   variant: 'primary' | 'success' | 'warning' | 'danger' | 'info' | 'neutral';
 }
 
+/**
+ * Keyboard drag action: Space picks up and drops, arrow keys move, Escape cancels
+ */
+export type KanbanCardKeyboardAction = 'grab' | 'drop' | 'cancel' | 'up' | 'down' | 'left' | 'right';
+
+/**
+ * Pointer position during a touch/pen drag
+ */
+export interface KanbanCardPointerEvent {
+  clientX: number;
+  clientY: number;
+  /** Card bounds when the drag started (only set on `pointerDragStarted`) */
+  rect?: DOMRect;
+}
+
+/** Keys that move or cancel a picked up card */
+const KEYBOARD_ACTIONS: Record<string, KanbanCardKeyboardAction> = {
+  ArrowUp: 'up',
+  ArrowDown: 'down',
+  ArrowLeft: 'left',
+  ArrowRight: 'right',
+  Escape: 'cancel'
+};
+
+/**
+ * Touch/pen drag state
+ */
+interface PointerDragState {
+  pointerId: number;
+  startX: number;
+  startY: number;
+  /** False until the press-and-hold completes */
+  active: boolean;
+  timer?: ReturnType<typeof setTimeout>;
+}
+
+/** Press-and-hold time before a touch drag starts (ms) */
+const POINTER_DRAG_DELAY = 250;
+
+/** Movement during the press-and-hold that is treated as scrolling (px) */
+const POINTER_DRAG_TOLERANCE = 8;
+
 /**
  * Kanban Card Component
  *
  * A draggable card for displaying items in a Kanban board column.
  * Supports title, subtitle, description, badge, meta info, and progress bar.
+ * Besides mouse drag-and-drop, cards can be picked up with the keyboard (Space)
+ * and dragged on touch screens after a short press-and-hold.
  *
  * @example
  * ```html
@@ -37,7 +81,13 @@ export interface KanbanCardBadge {
   templateUrl: './kanban-card.component.html',
   styleUrl: './kanban-card.component.css'
 })
-export class KanbanCardComponent {
+export class KanbanCardComponent implements OnDestroy {
+  // ========================================
+  // View Children
+  // ========================================
+
+  @ViewChild('cardElement') cardElement?: ElementRef<HTMLElement>;
+
   // ========================================
   // Inputs
   // ========================================
@@ -66,6 +116,12 @@ export class KanbanCardComponent {
   /** The underlying data object (passed through events) */
   data = input<any>();
 
+  /** Whether the card is picked up with the keyboard */
+  grabbed = input<boolean>(false);
+
+  /** Id of an element describing the card (e.g. keyboard instructions) */
+  describedBy = input<string | null>(null);
+
   // ========================================
   // Outputs
   // ========================================
@@ -79,6 +135,18 @@ export class KanbanCardComponent {
   /** Emitted when drag ends */
   dragEnded = output<void>();
 
+  /** Emitted for keyboard drag keys (Space, arrow keys and Escape) */
+  keyboardDrag = output<KanbanCardKeyboardAction>();
+
+  /** Emitted when a touch/pen drag starts */
+  pointerDragStarted = output<KanbanCardPointerEvent>();
+
+  /** Emitted when the pointer moves during a touch/pen drag */
+  pointerDragMoved = output<KanbanCardPointerEvent>();
+
+  /** Emitted when a touch/pen drag ends; null when it was cancelled */
+  pointerDragEnded = output<KanbanCardPointerEvent | null>();
+
   // ========================================
   // Internal State
   // ========================================
@@ -86,6 +154,12 @@ export class KanbanCardComponent {
   /** Whether the card is currently being dragged */
   isDragging = signal(false);
 
+  /** Touch/pen drag in progress (pending until the press-and-hold completes) */
+  private pointerDrag: PointerDragState | null = null;
+
+  /** Suppresses the click that follows a touch drag */
+  private suppressClick = false;
+
   // ========================================
   // Computed Properties
   // ========================================
@@ -96,6 +170,9 @@ export class KanbanCardComponent {
     if (this.isDragging()) {
       classes.push('dragging');
     }
+    if (this.grabbed()) {
+      classes.push('grabbed');
+    }
     if (this.draggable()) {
       classes.push('draggable');
     }
@@ -136,6 +213,11 @@ export class KanbanCardComponent {
    * Handle card click
    */
   onClick(event: MouseEvent): void {
+    if (this.suppressClick) {
+      this.suppressClick = false;
+      return;
+    }
+
     // Don't emit click if we're dragging
     if (!this.isDragging()) {
       this.cardClick.emit(this.data());
@@ -146,7 +228,8 @@ export class KanbanCardComponent {
    * Handle drag start
    */
   onDragStart(event: DragEvent): void {
-    if (!this.draggable()) {
+    // Touch drags are handled with pointer events
+    if (!this.draggable() || this.pointerDrag) {
       event.preventDefault();
       return;
     }
@@ -169,14 +252,144 @@ export class KanbanCardComponent {
     this.dragEnded.emit();
   }
 
+  /**
+   * Focus the card
+   */
+  focus(): void {
+    this.cardElement?.nativeElement.focus();
+  }
+
   /**
    * Handle keyboard interaction for accessibility
    */
   @HostListener('keydown', ['$event'])
   onKeyDown(event: KeyboardEvent): void {
+    if (event.key === ' ' && this.draggable()) {
+      event.preventDefault();
+      this.keyboardDrag.emit(this.grabbed() ? 'drop' : 'grab');
+      return;
+    }
+
+    if (this.grabbed()) {
+      const action = event.key === 'Enter' ? 'drop' : KEYBOARD_ACTIONS[event.key];
+      if (action) {
+        event.preventDefault();
+        this.keyboardDrag.emit(action);
+      }
+      return;
+    }
+
     if (event.key === 'Enter' || event.key === ' ') {
       event.preventDefault();
       this.cardClick.emit(this.data());
     }
   }
+
+  // ========================================
+  // Touch Drag
+  // ========================================
+
+  /**
+   * Start a touch/pen drag after a press-and-hold.
+   * Mouse drags use native drag-and-drop.
+   */
+  onPointerDown(event: PointerEvent): void {
+    if (!this.draggable() || event.pointerType === 'mouse' || !event.isPrimary) return;
+
+    this.stopPointerDrag();
+
+    const drag: PointerDragState = {
+      pointerId: event.pointerId,
+      startX: event.clientX,
+      startY: event.clientY,
+      active: false
+    };
+    drag.timer = setTimeout(() => {
+      drag.active = true;
+      this.isDragging.set(true);
+      this.pointerDragStarted.emit({
+        clientX: drag.startX,
+        clientY: drag.startY,
+        rect: this.cardElement?.nativeElement.getBoundingClientRect()
+      });
+    }, POINTER_DRAG_DELAY);
+    this.pointerDrag = drag;
+
+    document.addEventListener('pointermove', this.onDocumentPointerMove);
+    document.addEventListener('pointerup', this.onDocumentPointerUp);
+    document.addEventListener('pointercancel', this.onDocumentPointerUp);
+    document.addEventListener('touchmove', this.onDocumentTouchMove, { passive: false });
+  }
+
+  /**
+   * Prevent the long-press context menu during a touch drag
+   */
+  onContextMenu(event: Event): void {
+    if (this.pointerDrag) {
+      event.preventDefault();
+    }
+  }
+
+  /**
+   * Track the pointer during a touch drag
+   */
+  private readonly onDocumentPointerMove = (event: PointerEvent): void => {
+    const drag = this.pointerDrag;
+    if (!drag || event.pointerId !== drag.pointerId) return;
+
+    if (!drag.active) {
+      // Moving before the press-and-hold completes means the user is scrolling
+      if (Math.hypot(event.clientX - drag.startX, event.clientY - drag.startY) > POINTER_DRAG_TOLERANCE) {
+        this.stopPointerDrag();
+      }
+      return;
+    }
+
+    this.pointerDragMoved.emit({ clientX: event.clientX, clientY: event.clientY });
+  };
+
+  /**
+   * End the touch drag when the pointer is released or cancelled
+   */
+  private readonly onDocumentPointerUp = (event: PointerEvent): void => {
+    const drag = this.pointerDrag;
+    if (!drag || event.pointerId !== drag.pointerId) return;
+
+    this.stopPointerDrag();
+    if (drag.active) {
+      this.suppressClick = true;
+      this.pointerDragEnded.emit(
+        event.type === 'pointerup' ? { clientX: event.clientX, clientY: event.clientY } : null
+      );
+    }
+  };
+
+  /**
+   * Keep the page from scrolling while a card is dragged
+   */
+  private readonly onDocumentTouchMove = (event: TouchEvent): void => {
+    if (this.pointerDrag?.active) {
+      event.preventDefault();
+    }
+  };
+
+  /**
+   * Clear the touch drag state and listeners
+   */
+  private stopPointerDrag(): void {
+    if (!this.pointerDrag) return;
+
+    clearTimeout(this.pointerDrag.timer);
+    this.pointerDrag = null;
+    this.isDragging.set(false);
+
+    document.removeEventListener('pointermove', this.onDocumentPointerMove);
+    document.removeEventListener('pointerup', this.onDocumentPointerUp);
+    document.removeEventListener('pointercancel', this.onDocumentPointerUp);
+    document.removeEventListener('touchmove', this.onDocumentTouchMove);
+  }
+
+  ngOnDestroy(): void {
+    this.stopPointerDrag();
+  }
 }
@@ -1,4 +1,4 @@
-import { Component, input, output, signal, computed } from '@angular/core';
+import { Component, input, output, signal, computed, ViewChild, ElementRef } from '@angular/core';
 import { CommonModule } from '@angular/common';
 
 /**
@@ -7,6 +7,8 @@ import { CommonModule } from '@angular/common';
 export interface KanbanDropEvent {
   item: any;
   columnId: string;
+  /** Drop position among the column's cards (excluding the dragged card) */
+  index?: number;
 }
 
 /**
@@ -37,6 +39,12 @@ export interface KanbanDropEvent {
   styleUrl: './kanban-column.component.css'
 })
 export class KanbanColumnComponent {
+  // ========================================
+  // View Children
+  // ========================================
+
+  @ViewChild('body') body?: ElementRef<HTMLElement>;
+
   // ========================================
   // Inputs
   // ========================================
@@ -59,6 +67,18 @@ export class KanbanColumnComponent {
   /** Whether the column is collapsed */
   collapsed = input<boolean>(false);
 
+  /** Highlight the column as drop target (keyboard and touch drags) */
+  dropTarget = input<boolean>(false);
+
+  /** Work-in-progress limit; the column is marked when the count exceeds it */
+  wipLimit = input<number>();
+
+  /** Count checked against `wipLimit` when it differs from `count`, e.g. the whole column across swimlanes */
+  wipCount = input<number>();
+
+  /** Whether the dragged card can't be moved to this column */
+  dropDisabled = input<boolean>(false);
+
   // ========================================
   // Outputs
   // ========================================
@@ -69,6 +89,9 @@ export class KanbanColumnComponent {
   /** Emitted when collapse toggle is clicked */
   toggleCollapse = output<void>();
 
+  /** Emitted when the drop position under a dragged card changes; null when the drag leaves */
+  dropIndexChange = output<number | null>();
+
   // ========================================
   // Internal State
   // ========================================
@@ -76,10 +99,32 @@ export class KanbanColumnComponent {
   /** Whether a drag is currently over this column */
   isDragOver = signal(false);
 
+  /** Current drop position during a native drag */
+  private dropIndex: number | null = null;
+
   // ========================================
   // Computed Properties
   // ========================================
 
+  /** Count checked against the WIP limit */
+  readonly limitCount = computed(() => this.wipCount() ?? this.count());
+
+  /** Whether the count exceeds the WIP limit */
+  readonly overLimit = computed(() => {
+    const limit = this.wipLimit();
+    return limit !== undefined && this.limitCount() > limit;
+  });
+
+  /** Accessible label for the count badge */
+  readonly countLabel = computed(() => {
+    const limit = this.wipLimit();
+    if (limit === undefined) return `${this.count()} items`;
+
+    const overLimit = this.overLimit() ? ', over limit' : '';
+    if (this.wipCount() === undefined) return `${this.count()} of ${limit} items${overLimit}`;
+    return `${this.count()} items, ${this.limitCount()} of ${limit} in the column${overLimit}`;
+  });
+
   /** Column CSS classes */
   readonly columnClasses = computed(() => {
     const classes = ['kanban-column'];
@@ -89,14 +134,20 @@ export class KanbanColumnComponent {
     if (this.count() === 0) {
       classes.push('empty');
     }
+    if (this.overLimit()) {
+      classes.push('over-limit');
+    }
+    if (this.dropDisabled()) {
+      classes.push('drop-disabled');
+    }
     return classes.join(' ');
   });
 
   /** Column body CSS classes */
   readonly bodyClasses = computed(() => {
     const classes = ['kanban-column-body'];
-    if (this.isDragOver()) {
-      classes.push('drag-over');
+    if (this.isDragOver() || this.dropTarget()) {
+      classes.push(this.dropDisabled() ? 'drop-rejected' : 'drag-over');
     }
     return classes.join(' ');
   });
@@ -107,6 +158,23 @@ export class KanbanColumnComponent {
     this.toggleCollapse.emit();
   }
 
+  /**
+   * Get the drop position for a vertical pointer position: the index of the first
+   * item (a projected `[data-kanban-item]` element) whose middle is below it,
+   * ignoring the item being dragged (`.dragging`)
+   */
+  getDropIndex(clientY: number): number {
+    const items = Array.from(
+      this.body?.nativeElement.querySelectorAll<HTMLElement>(':scope > [data-kanban-item]:not(.dragging)') ?? []
+    ).map(item => item.getBoundingClientRect()).filter(rect => rect.height > 0);
+
+    // Nothing to measure: drop at the end
+    if (items.length === 0) return this.count();
+
+    const index = items.findIndex(rect => clientY < rect.top + rect.height / 2);
+    return index === -1 ? items.length : index;
+  }
+
   // ========================================
   // Drag and Drop Handlers
   // ========================================
@@ -119,6 +187,8 @@ export class KanbanColumnComponent {
     if (event.dataTransfer) {
       event.dataTransfer.dropEffect = 'move';
     }
+
+    this.setDropIndex(this.getDropIndex(event.clientY));
   }
 
   /**
@@ -139,6 +209,7 @@ export class KanbanColumnComponent {
 
     if (!currentTarget.contains(relatedTarget)) {
       this.isDragOver.set(false);
+      this.setDropIndex(null);
     }
   }
 
@@ -149,21 +220,36 @@ export class KanbanColumnComponent {
     event.preventDefault();
     this.isDragOver.set(false);
 
+    const index = this.getDropIndex(event.clientY);
+    this.setDropIndex(null);
+
     if (event.dataTransfer) {
       const dataString = event.dataTransfer.getData('text/plain');
       try {
         const item = JSON.parse(dataString);
         this.itemDropped.emit({
           item,
-          columnId: this.columnId()
+          columnId: this.columnId(),
+          index
         });
       } catch (e) {
         // Data wasn't JSON, emit raw data
         this.itemDropped.emit({
           item: dataString,
-          columnId: this.columnId()
+          columnId: this.columnId(),
+          index
         });
       }
     }
   }
+
+  /**
+   * Update the drop position, emitting only on change
+   */
+  private setDropIndex(index: number | null): void {
+    if (index === this.dropIndex) return;
+
+    this.dropIndex = index;
+    this.dropIndexChange.emit(index);
+  }
 }
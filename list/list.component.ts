@@ -1,4 +1,4 @@
-import { Component, input, output, computed, signal } from '@angular/core';
+import { Component, input, output, computed, signal, ElementRef, ViewChild } from '@angular/core';
 import { CommonModule } from '@angular/common';
 
 /**
@@ -28,8 +28,19 @@ export interface ListConfig {
   showSearch?: boolean;
   searchPlaceholder?: string;
   emptyMessage?: string;
+  /** Render only visible items (requires fixed item height) */
+  virtualScroll?: boolean;
+  /** Item height in px, including margins (virtual scrolling, default: 72) */
+  itemHeight?: number;
+  /** Scroll viewport height in px (virtual scrolling, default: 480) */
+  viewportHeight?: number;
 }
 
+/**
+ * Items rendered above and below the visible window when virtual scrolling
+ */
+const VIRTUAL_OVERSCAN = 6;
+
 /**
  * List Component
  *
@@ -43,6 +54,7 @@ export interface ListConfig {
  * - Hover states
  * - Icons, avatars, and badges
  * - Empty states
+ * - Virtual scrolling for large collections
  * - Fully responsive
  * - Accessible with ARIA support
  *
@@ -102,6 +114,21 @@ export class ListComponent {
   /** Selected item IDs */
   private selectedIds = signal<Set<string | number>>(new Set());
 
+  /** Scroll offset of the list (virtual scrolling) */
+  readonly scrollTop = signal<number>(0);
+
+  /** Keyboard-active item index (virtual scrolling) */
+  readonly activeIndex = signal<number>(-1);
+
+  /** Unique id prefix for item elements */
+  readonly listId = `list-${Math.random().toString(36).substr(2, 9)}`;
+
+  // ========================================
+  // View References
+  // ========================================
+
+  @ViewChild('listElement') listElement?: ElementRef<HTMLElement>;
+
   // ========================================
   // Computed Properties
   // ========================================
@@ -130,6 +157,59 @@ export class ListComponent {
     });
   });
 
+  /** Is virtual scrolling enabled */
+  readonly isVirtual = computed(() => !!this.config().virtualScroll);
+
+  /** Item height in px (virtual scrolling) */
+  readonly itemHeight = computed(() => this.config().itemHeight ?? 72);
+
+  /** Viewport height in px (virtual scrolling) */
+  readonly viewportHeight = computed(() => this.config().viewportHeight ?? 480);
+
+  /**
+   * Window of items to render
+   */
+  readonly virtualRange = computed(() => {
+    const total = this.filteredItems().length;
+    if (!this.isVirtual()) {
+      return { start: 0, end: total };
+    }
+
+    const itemHeight = this.itemHeight();
+    const first = Math.floor(this.scrollTop() / itemHeight);
+    const visible = Math.ceil(this.viewportHeight() / itemHeight);
+
+    return {
+      start: Math.max(0, first - VIRTUAL_OVERSCAN),
+      end: Math.min(total, first + visible + VIRTUAL_OVERSCAN)
+    };
+  });
+
+  /**
+   * Items currently rendered
+   */
+  readonly renderedItems = computed(() => {
+    const { start, end } = this.virtualRange();
+    return this.filteredItems().slice(start, end);
+  });
+
+  /** Height of the spacer above the rendered items */
+  readonly topSpacerHeight = computed(() => {
+    return this.virtualRange().start * this.itemHeight();
+  });
+
+  /** Height of the spacer below the rendered items */
+  readonly bottomSpacerHeight = computed(() => {
+    return (this.filteredItems().length - this.virtualRange().end) * this.itemHeight();
+  });
+
+  /** Id of the keyboard-active item, if rendered */
+  readonly activeDescendant = computed(() => {
+    const index = this.activeIndex();
+    const { start, end } = this.virtualRange();
+    return this.isVirtual() && index >= start && index < end ? this.getItemId(index) : null;
+  });
+
   /**
    * Selected items
    */
@@ -145,7 +225,11 @@ export class ListComponent {
   /**
    * Handle item click
    */
-  onItemClick(item: ListItem): void {
+  onItemClick(item: ListItem, index?: number): void {
+    if (index !== undefined && this.isVirtual()) {
+      this.activeIndex.set(index);
+    }
+
     if (item.disabled) {
       return;
     }
@@ -189,6 +273,7 @@ export class ListComponent {
   onSearch(event: Event): void {
     const input = event.target as HTMLInputElement;
     this.searchQuery.set(input.value);
+    this.resetViewport();
   }
 
   /**
@@ -196,6 +281,106 @@ export class ListComponent {
    */
   clearSearch(): void {
     this.searchQuery.set('');
+    this.resetViewport();
+  }
+
+  // ========================================
+  // Virtual Scrolling
+  // ========================================
+
+  /**
+   * Get the DOM id of an item
+   */
+  getItemId(index: number): string {
+    return `${this.listId}-item-${index}`;
+  }
+
+  /**
+   * Handle list scroll
+   */
+  onScroll(event: Event): void {
+    if (!this.isVirtual()) return;
+    this.scrollTop.set((event.target as HTMLElement).scrollTop);
+  }
+
+  /**
+   * Handle keyboard navigation in virtual scrolling mode.
+   * The list keeps focus while items are recycled; the active item is
+   * exposed through aria-activedescendant.
+   */
+  onListKeyDown(event: KeyboardEvent): void {
+    if (!this.isVirtual() || event.target !== event.currentTarget) return;
+
+    const items = this.filteredItems();
+    if (items.length === 0) return;
+
+    const pageItems = Math.max(1, Math.floor(this.viewportHeight() / this.itemHeight()) - 1);
+    const current = this.activeIndex();
+    let next = current;
+
+    switch (event.key) {
+      case 'ArrowDown':
+        next = current + 1;
+        break;
+      case 'ArrowUp':
+        next = current - 1;
+        break;
+      case 'PageDown':
+        next = current + pageItems;
+        break;
+      case 'PageUp':
+        next = current - pageItems;
+        break;
+      case 'Home':
+        next = 0;
+        break;
+      case 'End':
+        next = items.length - 1;
+        break;
+      case 'Enter':
+      case ' ':
+        event.preventDefault();
+        if (items[current]) this.onItemClick(items[current]);
+        return;
+      default:
+        return;
+    }
+
+    event.preventDefault();
+    next = Math.min(items.length - 1, Math.max(0, next));
+    this.activeIndex.set(next);
+    this.scrollItemIntoView(next);
+  }
+
+  /**
+   * Back to the top with no active item, e.g. after the search narrowed the items.
+   * Otherwise the virtual range and `aria-activedescendant` can point past the end.
+   */
+  private resetViewport(): void {
+    this.scrollTop.set(0);
+    this.activeIndex.set(-1);
+
+    const list = this.listElement?.nativeElement;
+    if (list) {
+      list.scrollTop = 0;
+    }
+  }
+
+  /**
+   * Scroll the list so an item is fully visible
+   */
+  private scrollItemIntoView(index: number): void {
+    const list = this.listElement?.nativeElement;
+    if (!list) return;
+
+    const itemHeight = this.itemHeight();
+    const itemTop = index * itemHeight;
+
+    if (itemTop < list.scrollTop) {
+      list.scrollTop = itemTop;
+    } else if (itemTop + itemHeight > list.scrollTop + list.clientHeight) {
+      list.scrollTop = itemTop + itemHeight - list.clientHeight;
+    }
   }
 
   /**
@@ -219,6 +404,10 @@ export class ListComponent {
       classes.push('list-selectable');
     }
 
+    if (cfg.virtualScroll) {
+      classes.push('list-virtual');
+    }
+
     return classes.join(' ');
   }
 
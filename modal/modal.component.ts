@@ -128,13 +128,13 @@ export class ModalComponent {
 
     // Keyboard event listener
     if (typeof window !== 'undefined') {
-      window.addEventListener('keydown', this.handleKeyDown.bind(this));
+      window.addEventListener('keydown', this.handleKeyDown);
     }
   }
 
   ngOnDestroy(): void {
     if (typeof window !== 'undefined') {
-      window.removeEventListener('keydown', this.handleKeyDown.bind(this));
+      window.removeEventListener('keydown', this.handleKeyDown);
     }
     this.restoreFocus();
     this.unlockScroll();
@@ -220,9 +220,9 @@ export class ModalComponent {
   }
 
   /**
-   * Handle keyboard events
+   * Handle keyboard events (an arrow function so the same listener can be removed on destroy)
    */
-  private handleKeyDown(event: KeyboardEvent): void {
+  private readonly handleKeyDown = (event: KeyboardEvent): void => {
     if (!this.isOpen()) return;
 
     const cfg = this.config();
@@ -237,7 +237,7 @@ export class ModalComponent {
     if (event.key === 'Tab') {
       this.handleTabKey(event);
     }
-  }
+  };
 
   /**
    * Handle tab key for focus trap
@@ -1,6 +1,32 @@
+import { Component } from '@angular/core';
 import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { By } from '@angular/platform-browser';
+import { FormControl, FormGroup, ReactiveFormsModule } from '@angular/forms';
 import { RadioComponent } from './radio.component';
 
+@Component({
+  standalone: true,
+  imports: [ReactiveFormsModule, RadioComponent],
+  template: `
+    <form [formGroup]="first">
+      <app-radio formControlName="type" name="type" [value]="'a'"></app-radio>
+      <app-radio formControlName="type" name="type" [value]="'b'"></app-radio>
+    </form>
+    <form [formGroup]="second">
+      <app-radio formControlName="type" name="type" [value]="'a'"></app-radio>
+      <app-radio formControlName="type" name="type" [value]="'b'"></app-radio>
+    </form>
+  `
+})
+class TwoFormsHostComponent {
+  first = new FormGroup({ type: new FormControl('a') });
+  second = new FormGroup({ type: new FormControl('b') });
+}
+
+function getRadios(fixture: ComponentFixture<TwoFormsHostComponent>): RadioComponent[] {
+  return fixture.debugElement.queryAll(By.directive(RadioComponent)).map(el => el.componentInstance);
+}
+
 describe('RadioComponent', () => {
   let component: RadioComponent;
   let fixture: ComponentFixture<RadioComponent>;
@@ -156,4 +182,63 @@ describe('RadioComponent', () => {
     fixture.detectChanges();
     expect(component.isChecked()).toBe(false);
   });
+
+  it('should write value from the forms API', () => {
+    component.writeValue('option1');
+    expect(component.isChecked()).toBe(true);
+
+    component.writeValue('option2');
+    expect(component.isChecked()).toBe(false);
+  });
+
+  it('should notify the forms API on select and blur', () => {
+    const onChange = jasmine.createSpy('onChange');
+    const onTouched = jasmine.createSpy('onTouched');
+    component.registerOnChange(onChange);
+    component.registerOnTouched(onTouched);
+
+    const input = fixture.nativeElement.querySelector('.radio-input');
+    input.click();
+    input.dispatchEvent(new FocusEvent('blur'));
+
+    expect(onChange).toHaveBeenCalledWith('option1');
+    expect(onTouched).toHaveBeenCalled();
+  });
+
+  it('should sync sibling radios bound to the same control', () => {
+    const host = TestBed.createComponent(TwoFormsHostComponent);
+    host.detectChanges();
+    const [firstA, firstB] = getRadios(host);
+
+    firstB.onSelect();
+    host.detectChanges();
+
+    expect(host.componentInstance.first.value.type).toBe('b');
+    expect(firstA.isChecked()).toBe(false);
+    expect(firstB.isChecked()).toBe(true);
+  });
+
+  it('should not sync radios with the same name in another form', () => {
+    const host = TestBed.createComponent(TwoFormsHostComponent);
+    host.detectChanges();
+    const [firstA, firstB, secondA, secondB] = getRadios(host);
+
+    firstB.onSelect();
+    secondA.onSelect();
+    host.detectChanges();
+
+    expect(host.componentInstance.second.value.type).toBe('a');
+    expect(secondB.isChecked()).toBe(false);
+    expect(host.componentInstance.first.value.type).toBe('b');
+    expect(firstA.isChecked()).toBe(false);
+    expect(firstB.isChecked()).toBe(true);
+  });
+
+  it('should disable radio via setDisabledState', () => {
+    component.setDisabledState(true);
+    fixture.detectChanges();
+
+    const input = fixture.nativeElement.querySelector('.radio-input');
+    expect(input.disabled).toBe(true);
+  });
 });
@@ -1,14 +1,28 @@
-import { Component, input, output, model, computed } from '@angular/core';
+import { Component, input, output, model, computed, signal, forwardRef, inject, Injector, OnDestroy } from '@angular/core';
 import { CommonModule, NgClass } from '@angular/common';
+import { ControlValueAccessor, NG_VALUE_ACCESSOR, NgControl } from '@angular/forms';
+
+/**
+ * Radios bound to a form control. A view change in one radio only reaches
+ * the control, so siblings bound to the same control are synced from here.
+ */
+const formBoundRadios = new Set<RadioComponent>();
 
 @Component({
   selector: 'app-radio',
   standalone: true,
   imports: [CommonModule, NgClass],
   templateUrl: './radio.component.html',
-  styleUrl: './radio.component.css'
+  styleUrl: './radio.component.css',
+  providers: [
+    {
+      provide: NG_VALUE_ACCESSOR,
+      useExisting: forwardRef(() => RadioComponent),
+      multi: true
+    }
+  ]
 })
-export class RadioComponent {
+export class RadioComponent implements ControlValueAccessor, OnDestroy {
   // Inputs
   value = input.required<any>(); // The value this radio represents
   selectedValue = model<any>(null); // Two-way binding for selected value
@@ -23,14 +37,27 @@ export class RadioComponent {
   // Outputs
   changed = output<any>();
 
+  // Internal Signals
+  private formDisabled = signal<boolean>(false);
+
+  // Forms API callbacks
+  private onChange: (value: any) => void = () => {};
+  private onTouched: () => void = () => {};
+
+  // Bound form directive (looked up lazily; injecting it directly would be circular)
+  private readonly injector = inject(Injector);
+  private ngControl: NgControl | null = null;
+
   // Computed Properties
+  readonly isDisabled = computed(() => this.disabled() || this.formDisabled());
+
   readonly isChecked = computed(() => {
     return this.selectedValue() === this.value();
   });
 
   readonly containerClasses = computed(() => {
     const classes: string[] = ['radio-container'];
-    if (this.disabled()) classes.push('radio-disabled');
+    if (this.isDisabled()) classes.push('radio-disabled');
     if (this.error()) classes.push('radio-error');
     return classes.join(' ');
   });
@@ -42,20 +69,58 @@ export class RadioComponent {
     return classes.join(' ');
   });
 
+  ngOnDestroy(): void {
+    formBoundRadios.delete(this);
+  }
+
   // Methods
   onSelect(): void {
-    if (this.disabled()) return;
+    if (this.isDisabled()) return;
 
     this.selectedValue.set(this.value());
     this.changed.emit(this.value());
+
+    if (formBoundRadios.has(this)) {
+      // Only radios of the same group in the same form share a control
+      const control = this.ngControl?.control;
+      formBoundRadios.forEach(radio => {
+        if (radio !== this && control && radio.ngControl?.control === control && radio.name() === this.name()) {
+          radio.selectedValue.set(this.value());
+        }
+      });
+      this.onChange(this.value());
+    }
   }
 
   onKeyDown(event: KeyboardEvent): void {
-    if (this.disabled()) return;
+    if (this.isDisabled()) return;
 
     if (event.key === 'Enter' || event.key === ' ') {
       event.preventDefault();
       this.onSelect();
     }
   }
+
+  onBlur(): void {
+    this.onTouched();
+  }
+
+  // ControlValueAccessor
+  writeValue(value: any): void {
+    this.selectedValue.set(value);
+  }
+
+  registerOnChange(fn: (value: any) => void): void {
+    this.onChange = fn;
+    this.ngControl = this.injector.get(NgControl, null, { self: true, optional: true });
+    formBoundRadios.add(this);
+  }
+
+  registerOnTouched(fn: () => void): void {
+    this.onTouched = fn;
+  }
+
+  setDisabledState(isDisabled: boolean): void {
+    this.formDisabled.set(isDisabled);
+  }
 }
@@ -3,9 +3,25 @@
  *
  * A dynamic form component for adding/removing multiple items.
  */
-export { RepeaterFieldComponent } from './repeater-field.component';
+export {
+  RepeaterFieldComponent,
+  getRepeaterAggregateValue,
+  getRepeaterAggregateKey
+} from './repeater-field.component';
 export type {
   RepeaterFieldConfig,
   RepeaterConfig,
-  RepeaterItem
+  RepeaterItem,
+  RepeaterItemMoveEvent,
+  RepeaterFieldValidation,
+  RepeaterItemValidator,
+  RepeaterCollectionValidator,
+  RepeaterItemErrors,
+  RepeaterAggregate,
+  RepeaterAggregateType,
+  RepeaterAggregateValues
 } from './repeater-field.component';
+export {
+  RepeaterSummaryTemplateDirective,
+  type RepeaterSummaryContext
+} from './repeater-summary-template.directive';
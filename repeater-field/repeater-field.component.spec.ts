@@ -0,0 +1,236 @@
+import { ComponentFixture, TestBed, fakeAsync, flushMicrotasks, tick } from '@angular/core/testing';
+import {
+  RepeaterAggregateType,
+  RepeaterAggregateValues,
+  RepeaterConfig,
+  RepeaterFieldComponent,
+  RepeaterItem,
+  getRepeaterAggregateValue
+} from './repeater-field.component';
+
+describe('RepeaterFieldComponent', () => {
+  let component: RepeaterFieldComponent;
+  let fixture: ComponentFixture<RepeaterFieldComponent>;
+
+  const createComponent = (config: RepeaterConfig, items: RepeaterItem[] = []) => {
+    fixture = TestBed.createComponent(RepeaterFieldComponent);
+    component = fixture.componentInstance;
+    fixture.componentRef.setInput('config', config);
+    fixture.componentRef.setInput('items', items);
+    fixture.componentRef.setInput('showErrors', true);
+    fixture.detectChanges();
+  };
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [RepeaterFieldComponent]
+    }).compileComponents();
+  });
+
+  it('should create', () => {
+    createComponent({ itemFields: [{ fieldName: 'name', label: 'Name', type: 'text' }] });
+    expect(component).toBeTruthy();
+  });
+
+  describe('async validation', () => {
+    let resolvers: Array<(error: string | null) => void>;
+    let asyncValidator: jasmine.Spy;
+    let pending: boolean[];
+
+    const owner = (id: string, orgNumber: string): RepeaterItem => ({ id, values: { orgNumber } });
+
+    /** Let the debounce pass and the validator result arrive */
+    const settle = (error: string | null = null) => {
+      tick(100);
+      resolvers.shift()?.(error);
+      flushMicrotasks();
+      fixture.detectChanges();
+    };
+
+    beforeEach(() => {
+      resolvers = [];
+      pending = [];
+      asyncValidator = jasmine.createSpy('asyncValidator').and.callFake(() => {
+        return new Promise<string | null>(resolve => resolvers.push(resolve));
+      });
+    });
+
+    const createOwners = (items: RepeaterItem[] = []) => {
+      createComponent({
+        itemFields: [{
+          fieldName: 'orgNumber',
+          label: 'Org number',
+          type: 'text',
+          validation: { asyncValidator, asyncDebounce: 100 }
+        }]
+      }, items);
+      component.pendingChange.subscribe(value => pending.push(value));
+    };
+
+    it('should validate items passed in through items', fakeAsync(() => {
+      createOwners([owner('a', '123456789')]);
+      settle('Org number is unknown');
+
+      expect(asyncValidator).toHaveBeenCalledWith('123456789', { orgNumber: '123456789' });
+      expect(component.getFieldError(component.getItems()[0], 'orgNumber')).toBe('Org number is unknown');
+      expect(component.valid()).toBeFalse();
+    }));
+
+    it('should discard the result for an older value', fakeAsync(() => {
+      createOwners([owner('a', '')]);
+
+      component.updateFieldValue('a', 'orgNumber', '111111111');
+      tick(100);
+      component.updateFieldValue('a', 'orgNumber', '222222222');
+      tick(100);
+
+      // The first run answers last
+      const [first, second] = resolvers;
+      second(null);
+      first('Org number is unknown');
+      flushMicrotasks();
+      fixture.detectChanges();
+
+      expect(asyncValidator).toHaveBeenCalledTimes(2);
+      expect(component.getFieldError(component.getItems()[0], 'orgNumber')).toBeUndefined();
+      expect(component.isPending()).toBeFalse();
+      expect(component.valid()).toBeTrue();
+    }));
+
+    it('should validate duplicated items', fakeAsync(() => {
+      createOwners([owner('a', '123456789')]);
+      settle('Org number is already added');
+
+      component.duplicateItem(0);
+      fixture.detectChanges();
+
+      const copy = component.getItems()[1];
+      expect(component.getFieldError(copy, 'orgNumber')).toBeUndefined();
+      expect(component.isFieldPending(copy, 'orgNumber')).toBeTrue();
+
+      settle('Org number is already added');
+
+      expect(asyncValidator).toHaveBeenCalledTimes(2);
+      expect(component.getFieldError(copy, 'orgNumber')).toBe('Org number is already added');
+    }));
+
+    it('should emit pending while a validator runs', fakeAsync(() => {
+      createOwners([owner('a', '')]);
+
+      component.updateFieldValue('a', 'orgNumber', '123456789');
+      fixture.detectChanges();
+      expect(component.isFieldPending(component.getItems()[0], 'orgNumber')).toBeTrue();
+
+      settle();
+
+      expect(pending).toEqual([true, false]);
+      expect(component.isPending()).toBeFalse();
+    }));
+
+    it('should clear pending when the value is cleared', fakeAsync(() => {
+      createOwners([owner('a', '')]);
+
+      component.updateFieldValue('a', 'orgNumber', '123456789');
+      fixture.detectChanges();
+      component.updateFieldValue('a', 'orgNumber', '');
+      fixture.detectChanges();
+      tick(100);
+
+      expect(asyncValidator).not.toHaveBeenCalled();
+      expect(pending).toEqual([true, false]);
+    }));
+
+    it('should clear pending when an item with validation in flight is removed', fakeAsync(() => {
+      createOwners([owner('a', ''), owner('b', '')]);
+
+      component.updateFieldValue('b', 'orgNumber', '123456789');
+      fixture.detectChanges();
+      tick(100);
+      component.removeItem(1);
+      fixture.detectChanges();
+
+      expect(component.isPending()).toBeFalse();
+      expect(pending).toEqual([true, false]);
+
+      resolvers[0]('Org number is unknown');
+      flushMicrotasks();
+      expect(component.isPending()).toBeFalse();
+    }));
+
+    it('should clear pending when items are replaced through the input', fakeAsync(() => {
+      createOwners([owner('a', '123456789')]);
+      expect(component.isPending()).toBeTrue();
+
+      fixture.componentRef.setInput('items', []);
+      fixture.detectChanges();
+      tick(100);
+
+      expect(asyncValidator).not.toHaveBeenCalled();
+      expect(component.isPending()).toBeFalse();
+    }));
+  });
+
+  describe('aggregates', () => {
+    const balances = (...values: any[]): RepeaterItem[] =>
+      values.map((balance, index) => ({ id: `loan-${index}`, values: { balance } }));
+
+    const aggregate = (type: RepeaterAggregateType, items: RepeaterItem[]) =>
+      getRepeaterAggregateValue({ fieldName: 'balance', type }, items);
+
+    it('should aggregate numeric values', () => {
+      const items = balances(200, 100, '300');
+
+      expect(aggregate('sum', items)).toBe(600);
+      expect(aggregate('avg', items)).toBe(200);
+      expect(aggregate('min', items)).toBe(100);
+      expect(aggregate('max', items)).toBe(300);
+    });
+
+    it('should ignore empty and non-numeric values', () => {
+      const items = balances(100, null, undefined, '', '  ', 'n/a', true, NaN, Infinity, 300);
+
+      expect(aggregate('sum', items)).toBe(400);
+      expect(aggregate('avg', items)).toBe(200);
+      expect(aggregate('min', items)).toBe(100);
+      expect(aggregate('max', items)).toBe(300);
+    });
+
+    it('should return 0 for the sum and null for avg, min and max of no values', () => {
+      [balances(), balances(null, 'n/a')].forEach(items => {
+        expect(aggregate('sum', items)).toBe(0);
+        expect(aggregate('avg', items)).toBeNull();
+        expect(aggregate('min', items)).toBeNull();
+        expect(aggregate('max', items)).toBeNull();
+      });
+    });
+
+    it('should return null for a non-finite custom result', () => {
+      const average = (values: number[]) => values.reduce((total, value) => total + value, 0) / values.length;
+
+      expect(getRepeaterAggregateValue({ fieldName: 'balance', type: 'custom', reduce: average }, balances())).toBeNull();
+      expect(getRepeaterAggregateValue({ fieldName: 'balance', type: 'custom', reduce: average }, balances(2, 4))).toBe(3);
+    });
+
+    it('should emit aggregate values and show missing ones as a dash', () => {
+      const emitted: RepeaterAggregateValues[] = [];
+      createComponent({
+        itemFields: [{ fieldName: 'balance', label: 'Balance', type: 'currency' }],
+        aggregates: [
+          { fieldName: 'balance', type: 'sum' },
+          { fieldName: 'balance', type: 'max' }
+        ]
+      }, balances(null));
+      component.aggregatesChange.subscribe(values => emitted.push(values));
+
+      const values = fixture.nativeElement.querySelectorAll('.repeater-aggregate-value');
+      expect(values[0].textContent.trim()).toBe('0 kr');
+      expect(values[1].textContent.trim()).toBe('–');
+
+      component.updateFieldValue('loan-0', 'balance', 1500000);
+      fixture.detectChanges();
+
+      expect(emitted).toEqual([{ 'sum:balance': 1500000, 'max:balance': 1500000 }]);
+      expect(values[1].textContent.trim()).toBe('1 500 000 kr');
+    });
+  });
+});
@@ -1,5 +1,7 @@
-import { Component, input, output, signal, computed } from '@angular/core';
+import { Component, OnDestroy, input, output, signal, computed, effect, untracked, ContentChild, ElementRef, inject } from '@angular/core';
 import { CommonModule } from '@angular/common';
+import { Observable, firstValueFrom, isObservable } from 'rxjs';
+import { RepeaterSummaryTemplateDirective } from './repeater-summary-template.directive';
 
 /**
  * Configuration for a single field within a repeater item
@@ -27,8 +29,140 @@ export interface RepeaterFieldConfig {
   min?: number;
   /** Maximum value (for number/currency type) */
   max?: number;
+  /** Additional validation rules */
+  validation?: RepeaterFieldValidation;
 }
 
+/**
+ * Validation rules for a repeater item field (same rules as FormFieldValidation;
+ * `required`, `min` and `max` are set on the field config)
+ */
+export interface RepeaterFieldValidation {
+  minLength?: number;
+  maxLength?: number;
+  pattern?: RegExp;
+  email?: boolean;
+  url?: boolean;
+  /** Returns an error message or null. `values` are the item's values */
+  custom?: (value: any, values: Record<string, any>) => string | null;
+  /** Async validator, run after all sync rules pass. Resolves to an error message or null */
+  asyncValidator?: (value: any, values: Record<string, any>) => Promise<string | null> | Observable<string | null>;
+  /** Debounce for the async validator in ms (default: 400) */
+  asyncDebounce?: number;
+}
+
+/**
+ * Validates a whole item. Return an error message for the item, errors keyed by
+ * field name, or null when the item is valid.
+ */
+export type RepeaterItemValidator = (values: Record<string, any>, index: number) => string | Record<string, string> | null;
+
+/**
+ * Validates all items together. Returns an error message or null.
+ */
+export type RepeaterCollectionValidator = (items: RepeaterItem[]) => string | null;
+
+/**
+ * Validation errors of a single item
+ */
+export interface RepeaterItemErrors {
+  /** Errors keyed by field name */
+  fields: Record<string, string>;
+  /** Error for the item as a whole */
+  item: string | null;
+}
+
+/**
+ * Aggregate functions
+ */
+export type RepeaterAggregateType = 'sum' | 'avg' | 'min' | 'max' | 'custom';
+
+/**
+ * Aggregate over a numeric item field, shown in the footer
+ */
+export interface RepeaterAggregate {
+  /** Field to aggregate */
+  fieldName: string;
+  type: RepeaterAggregateType;
+  /** Key in `aggregateValues` (default: `${type}:${fieldName}`, e.g. 'sum:amount') */
+  key?: string;
+  /** Footer label (default: e.g. "Total amount") */
+  label?: string;
+  /** Decimal places (default: the field's `decimals`) */
+  decimals?: number;
+  /** Reducer for `custom` aggregates. `values` are the field's numeric values */
+  reduce?: (values: number[], items: RepeaterItem[]) => number | null;
+}
+
+/**
+ * Aggregate values keyed by aggregate key
+ */
+export type RepeaterAggregateValues = Record<string, number | null>;
+
+/**
+ * Default footer label prefix per aggregate type
+ */
+const AGGREGATE_LABELS: Record<RepeaterAggregateType, string> = {
+  sum: 'Total',
+  avg: 'Average',
+  min: 'Lowest',
+  max: 'Highest',
+  custom: ''
+};
+
+/**
+ * Key of an aggregate in `aggregateValues`
+ */
+export function getRepeaterAggregateKey(aggregate: RepeaterAggregate): string {
+  return aggregate.key ?? `${aggregate.type}:${aggregate.fieldName}`;
+}
+
+/**
+ * Compute an aggregate over items, e.g. in a parent form validator.
+ * Empty and non-numeric values are ignored. The `sum` of no values is 0; `avg`, `min`
+ * and `max` of no values are null, as is a non-finite `custom` result.
+ */
+export function getRepeaterAggregateValue(aggregate: RepeaterAggregate, items: RepeaterItem[]): number | null {
+  const values = items
+    .map(item => toAggregateNumber(item.values[aggregate.fieldName]))
+    .filter((value): value is number => value !== null);
+
+  switch (aggregate.type) {
+    case 'sum':
+      return values.reduce((total, value) => total + value, 0);
+    case 'avg':
+      return values.length > 0 ? values.reduce((total, value) => total + value, 0) / values.length : null;
+    case 'min':
+      return values.length > 0 ? Math.min(...values) : null;
+    case 'max':
+      return values.length > 0 ? Math.max(...values) : null;
+    case 'custom': {
+      const result = aggregate.reduce?.(values, items) ?? null;
+      return result !== null && Number.isFinite(result) ? result : null;
+    }
+  }
+}
+
+/**
+ * Finite number of an item value (numbers and numeric strings), or null
+ */
+function toAggregateNumber(value: any): number | null {
+  let number: number;
+  if (typeof value === 'number') {
+    number = value;
+  } else if (typeof value === 'string' && value.trim() !== '') {
+    number = Number(value);
+  } else {
+    return null;
+  }
+  return Number.isFinite(number) ? number : null;
+}
+
+/**
+ * Default debounce for async validators (ms)
+ */
+const ASYNC_DEBOUNCE = 400;
+
 /**
  * Configuration for the repeater field component
  */
@@ -45,6 +179,29 @@ export interface RepeaterConfig {
   removeButtonLabel?: string;
   /** Label for each item (e.g., "Loan", "Income") */
   itemLabel?: string;
+  /** Allow reordering items by dragging or with move up/down buttons */
+  reorderable?: boolean;
+  /** Show a duplicate button on each item */
+  duplicable?: boolean;
+  /** Allow collapsing items to a one-line summary */
+  collapsible?: boolean;
+  /** Summary of a collapsed item (default: the item's filled-in values) */
+  summaryFn?: (item: RepeaterItem, index: number) => string;
+  /** Validators for each item, e.g. "down payment must be less than the loan amount" */
+  itemValidators?: RepeaterItemValidator[];
+  /** Validators for all items together, e.g. "shares must add up to 100%" */
+  collectionValidators?: RepeaterCollectionValidator[];
+  /** Totals shown in the footer (sum, average, min, max or custom) */
+  aggregates?: RepeaterAggregate[];
+}
+
+/**
+ * Item moved event data
+ */
+export interface RepeaterItemMoveEvent {
+  item: RepeaterItem;
+  fromIndex: number;
+  toIndex: number;
 }
 
 /**
@@ -55,7 +212,7 @@ export interface RepeaterItem {
   id: string;
   /** Field values for this item */
   values: Record<string, any>;
-  /** Validation errors for this item */
+  /** External validation errors for this item (e.g. from the server), keyed by field name */
   errors?: Record<string, string>;
 }
 
@@ -63,7 +220,11 @@ export interface RepeaterItem {
  * Repeater Field Component
  *
  * A dynamic form component that allows users to add/remove multiple items
- * of the same type (e.g., loans, income sources, etc.).
+ * of the same type (e.g., loans, income sources, etc.). Items can optionally be
+ * reordered (drag or move up/down), duplicated and collapsed to a summary.
+ * Field, item and collection validators run as the user edits; errors are shown
+ * once a field is touched or `showErrors` is set. Configured aggregates are shown
+ * in a footer and exposed through `aggregateValues`/`aggregatesChange`.
  *
  * @example
  * ```html
@@ -83,7 +244,7 @@ export interface RepeaterItem {
   templateUrl: './repeater-field.component.html',
   styleUrl: './repeater-field.component.css'
 })
-export class RepeaterFieldComponent {
+export class RepeaterFieldComponent implements OnDestroy {
   // Inputs
   /** Configuration for the repeater */
   config = input.required<RepeaterConfig>();
@@ -100,6 +261,9 @@ export class RepeaterFieldComponent {
   /** Whether the repeater is readonly */
   readonly = input<boolean>(false);
 
+  /** Show all validation errors, e.g. after the parent form was submitted */
+  showErrors = input<boolean>(false);
+
   // Outputs
   /** Emitted when items change */
   itemsChange = output<RepeaterItem[]>();
@@ -113,9 +277,57 @@ export class RepeaterFieldComponent {
   /** Emitted when a field value changes */
   fieldValueChanged = output<{ itemId: string; fieldName: string; value: any }>();
 
+  /** Emitted when an item is moved (the new order is emitted in `itemsChange`) */
+  itemMoved = output<RepeaterItemMoveEvent>();
+
+  /** Emitted when validity changes */
+  validityChange = output<boolean>();
+
+  /** Emitted when async validation starts or finishes */
+  pendingChange = output<boolean>();
+
+  /** Emitted when aggregate values change */
+  aggregatesChange = output<RepeaterAggregateValues>();
+
+  // Content Templates
+  /** Custom summary for collapsed items */
+  @ContentChild(RepeaterSummaryTemplateDirective) summaryTemplate?: RepeaterSummaryTemplateDirective;
+
   // Internal Signals
   private internalItems = signal<RepeaterItem[]>([]);
 
+  /** IDs of collapsed items */
+  readonly collapsedIds = signal<Set<string>>(new Set());
+
+  /** Index of the item being dragged */
+  readonly draggedIndex = signal<number | null>(null);
+
+  /** Index of the item under the dragged item */
+  readonly dropTargetIndex = signal<number | null>(null);
+
+  /** Screen reader announcement for moves */
+  readonly announcement = signal<string>('');
+
+  /** Touched fields, keyed by `itemId:fieldName` */
+  readonly touchedFields = signal<Set<string>>(new Set());
+
+  /** Async validation errors, keyed by `itemId:fieldName` */
+  private readonly asyncErrors = signal<Record<string, string | null>>({});
+
+  /** Fields with an async validator in flight, keyed by `itemId:fieldName` */
+  readonly pendingFields = signal<Set<string>>(new Set());
+
+  /** Debounce timers for async validators */
+  private readonly asyncTimers = new Map<string, ReturnType<typeof setTimeout>>();
+
+  /** Latest async run per field; older results are ignored */
+  private readonly asyncRuns = new Map<string, number>();
+
+  /** Last value validated asynchronously per field and its result */
+  private readonly asyncResults = new Map<string, { value: any; error: string | null }>();
+
+  private readonly elementRef = inject<ElementRef<HTMLElement>>(ElementRef);
+
   // Computed Properties
   readonly canAddItem = computed(() => {
     const cfg = this.config();
@@ -137,9 +349,132 @@ export class RepeaterFieldComponent {
     return this.config().itemLabel || 'Item';
   });
 
+  readonly canReorder = computed(() => {
+    return !!this.config().reorderable && !this.disabled() && !this.readonly();
+  });
+
+  /** Sync validation errors per item ID (field rules and item validators) */
+  readonly itemErrors = computed(() => {
+    const cfg = this.config();
+    const errors = new Map<string, RepeaterItemErrors>();
+
+    this.internalItems().forEach((item, index) => {
+      const fields: Record<string, string> = {};
+      let itemError: string | null = null;
+
+      cfg.itemFields.forEach(field => {
+        const error = this.validateValue(field, item.values[field.fieldName], item.values);
+        if (error) fields[field.fieldName] = error;
+      });
+
+      for (const validator of cfg.itemValidators ?? []) {
+        const result = validator(item.values, index);
+        if (typeof result === 'string') {
+          itemError ??= result;
+        } else if (result) {
+          Object.entries(result).forEach(([fieldName, error]) => {
+            fields[fieldName] ??= error;
+          });
+        }
+      }
+
+      errors.set(item.id, { fields, item: itemError });
+    });
+
+    return errors;
+  });
+
+  /** Collection validator errors */
+  readonly collectionErrors = computed(() => {
+    const items = this.internalItems();
+    return (this.config().collectionValidators ?? [])
+      .map(validator => validator(items))
+      .filter((error): error is string => !!error);
+  });
+
+  /** Is async validation pending */
+  readonly isPending = computed(() => this.pendingFields().size > 0);
+
+  /** Are all items and the collection valid (async validation in flight is reported by `isPending`) */
+  readonly valid = computed(() => {
+    const asyncErrors = this.asyncErrors();
+    const itemsValid = this.internalItems().every(item => {
+      const errors = this.itemErrors().get(item.id);
+      return !errors?.item
+        && Object.keys(errors?.fields ?? {}).length === 0
+        && Object.keys(item.errors ?? {}).every(fieldName => !item.errors![fieldName])
+        && this.config().itemFields.every(field => !asyncErrors[this.fieldKey(item, field.fieldName)]);
+    });
+
+    return itemsValid && this.collectionErrors().length === 0;
+  });
+
+  /** Footer rows for the configured aggregates */
+  readonly aggregateRows = computed(() => {
+    const items = this.internalItems();
+    const fields = this.config().itemFields;
+
+    return (this.config().aggregates ?? []).map(aggregate => {
+      const field = fields.find(f => f.fieldName === aggregate.fieldName);
+      const value = getRepeaterAggregateValue(aggregate, items);
+
+      return {
+        key: getRepeaterAggregateKey(aggregate),
+        label: aggregate.label ?? `${AGGREGATE_LABELS[aggregate.type]} ${field?.label.toLowerCase() ?? aggregate.fieldName}`.trim(),
+        value,
+        formatted: this.formatFieldAmount(value, field, aggregate.decimals ?? field?.decimals ?? 0)
+      };
+    });
+  });
+
+  /** Aggregate values keyed by aggregate key (e.g. `{ 'sum:amount': 2500000 }`) */
+  readonly aggregateValues = computed(() => {
+    const values: RepeaterAggregateValues = {};
+    this.aggregateRows().forEach(row => {
+      values[row.key] = row.value;
+    });
+    return values;
+  });
+
   constructor() {
-    // Initialize internal items from input
-    this.internalItems.set(this.items() || []);
+    // Sync internal items from input (e.g. when a form restores a draft)
+    effect(() => {
+      const items = this.items() || [];
+      untracked(() => {
+        const previous = this.internalItems();
+        const known = new Set(previous);
+        const ids = new Set(items.map(item => item.id));
+        this.internalItems.set(items);
+
+        // Results for items that were replaced away are no longer wanted
+        previous.filter(item => !ids.has(item.id)).forEach(item => this.cancelItemValidation(item));
+
+        // Items that didn't come from this component haven't been validated asynchronously yet
+        items.filter(item => !known.has(item)).forEach(item => this.validateItemAsync(item));
+      });
+    });
+
+    // Emit validity changes
+    effect(() => {
+      this.validityChange.emit(this.valid());
+    });
+
+    // Emit pending changes
+    effect(() => {
+      this.pendingChange.emit(this.isPending());
+    });
+
+    // Emit aggregate changes
+    effect(() => {
+      if (this.config().aggregates?.length) {
+        this.aggregatesChange.emit(this.aggregateValues());
+      }
+    });
+  }
+
+  ngOnDestroy(): void {
+    this.asyncTimers.forEach(timer => clearTimeout(timer));
+    this.asyncTimers.clear();
   }
 
   /**
@@ -178,10 +513,207 @@ export class RepeaterFieldComponent {
     const updatedItems = items.filter((_, i) => i !== index);
 
     this.internalItems.set(updatedItems);
+    this.cancelItemValidation(removedItem);
     this.itemsChange.emit(updatedItems);
     this.itemRemoved.emit({ item: removedItem, index });
   }
 
+  /**
+   * Insert a copy of an item after it
+   */
+  duplicateItem(index: number): void {
+    const source = this.internalItems()[index];
+    if (!source || !this.canAddItem()) return;
+
+    const copy: RepeaterItem = {
+      id: this.generateId(),
+      values: structuredClone(source.values),
+      errors: {}
+    };
+
+    const updatedItems = [...this.internalItems()];
+    updatedItems.splice(index + 1, 0, copy);
+
+    this.internalItems.set(updatedItems);
+    this.itemsChange.emit(updatedItems);
+    this.itemAdded.emit(copy);
+    this.validateItemAsync(copy);
+  }
+
+  /**
+   * Move an item to a new position
+   */
+  moveItem(fromIndex: number, toIndex: number): void {
+    const items = this.internalItems();
+    if (!this.canReorder() || fromIndex === toIndex || toIndex < 0 || toIndex >= items.length) return;
+
+    const updatedItems = [...items];
+    const [item] = updatedItems.splice(fromIndex, 1);
+    updatedItems.splice(toIndex, 0, item);
+
+    this.internalItems.set(updatedItems);
+    this.itemsChange.emit(updatedItems);
+    this.itemMoved.emit({ item, fromIndex, toIndex });
+    this.announcement.set(`${this.itemLabelText()} ${fromIndex + 1} moved to position ${toIndex + 1} of ${items.length}`);
+  }
+
+  /**
+   * Move an item one step up or down with the move buttons
+   */
+  moveItemBy(index: number, offset: -1 | 1): void {
+    const item = this.internalItems()[index];
+    this.moveItem(index, index + offset);
+
+    // Moving the item re-inserts its element, so focus is lost. Keep it on the same
+    // button, or on the other one once the item reaches the top or bottom.
+    const newIndex = this.internalItems().indexOf(item);
+    const atEdge = offset === -1 ? newIndex === 0 : newIndex === this.internalItems().length - 1;
+    let direction = offset === -1 ? 'up' : 'down';
+    if (atEdge) {
+      direction = offset === -1 ? 'down' : 'up';
+    }
+
+    setTimeout(() => {
+      this.elementRef.nativeElement.querySelector<HTMLElement>(`[id="${item.id}-move-${direction}"]`)?.focus();
+    });
+  }
+
+  /**
+   * Handle drag start on an item's drag handle
+   */
+  onDragStart(index: number, event: DragEvent): void {
+    if (!this.canReorder()) {
+      event.preventDefault();
+      return;
+    }
+
+    this.draggedIndex.set(index);
+
+    if (event.dataTransfer) {
+      event.dataTransfer.effectAllowed = 'move';
+      event.dataTransfer.setData('text/plain', String(index));
+
+      // Drag the whole item, not just the handle
+      const itemElement = (event.target as HTMLElement).closest('.repeater-item');
+      if (itemElement) {
+        event.dataTransfer.setDragImage(itemElement, 16, 16);
+      }
+    }
+  }
+
+  /**
+   * Handle drag over an item
+   */
+  onDragOver(index: number, event: DragEvent): void {
+    if (this.draggedIndex() === null) return;
+
+    event.preventDefault();
+    if (event.dataTransfer) {
+      event.dataTransfer.dropEffect = 'move';
+    }
+    this.dropTargetIndex.set(index);
+  }
+
+  /**
+   * Handle drop on an item
+   */
+  onDrop(index: number, event: DragEvent): void {
+    const dragged = this.draggedIndex();
+    if (dragged === null) return;
+
+    event.preventDefault();
+    this.moveItem(dragged, index);
+    this.onDragEnd();
+  }
+
+  /**
+   * Handle drag end
+   */
+  onDragEnd(): void {
+    this.draggedIndex.set(null);
+    this.dropTargetIndex.set(null);
+  }
+
+  /**
+   * Check if an item is collapsed
+   */
+  isCollapsed(item: RepeaterItem): boolean {
+    return this.collapsedIds().has(item.id);
+  }
+
+  /**
+   * Collapse or expand an item
+   */
+  toggleCollapse(item: RepeaterItem): void {
+    this.collapsedIds.update(ids => {
+      const newIds = new Set(ids);
+      if (newIds.has(item.id)) {
+        newIds.delete(item.id);
+      } else {
+        newIds.add(item.id);
+      }
+      return newIds;
+    });
+  }
+
+  /**
+   * Collapse all items
+   */
+  collapseAll(): void {
+    this.collapsedIds.set(new Set(this.internalItems().map(item => item.id)));
+  }
+
+  /**
+   * Expand all items
+   */
+  expandAll(): void {
+    this.collapsedIds.set(new Set());
+  }
+
+  /**
+   * One-line summary of an item: `summaryFn`, or the filled-in values
+   */
+  getItemSummary(item: RepeaterItem, index: number): string {
+    const summaryFn = this.config().summaryFn;
+    if (summaryFn) return summaryFn(item, index);
+
+    return this.config().itemFields
+      .map(field => this.formatSummaryValue(field, item.values[field.fieldName]))
+      .filter(value => value !== '')
+      .join(' · ');
+  }
+
+  /**
+   * Format a number like the field it belongs to (with the currency for currency fields)
+   */
+  private formatFieldAmount(value: number | null, field: RepeaterFieldConfig | undefined, decimals: number): string {
+    if (value === null) return '–';
+
+    const amount = this.formatNumericValue(value, decimals);
+    if (field?.type !== 'currency') return amount;
+
+    const currency = field.currency || 'kr';
+    return field.currencyPosition === 'prefix' ? `${currency} ${amount}` : `${amount} ${currency}`;
+  }
+
+  /**
+   * Format a value for the default summary
+   */
+  private formatSummaryValue(field: RepeaterFieldConfig, value: any): string {
+    if (value === null || value === undefined || value === '') return '';
+
+    switch (field.type) {
+      case 'checkbox':
+        return value ? field.label : '';
+      case 'currency':
+        return this.formatFieldAmount(Number(value), field, field.decimals || 0);
+      case 'select':
+        return field.options?.find(option => String(option.value) === String(value))?.label ?? String(value);
+      default:
+        return String(value);
+    }
+  }
+
   /**
    * Check if an item can be removed
    */
@@ -214,6 +746,12 @@ export class RepeaterFieldComponent {
     this.internalItems.set(updatedItems);
     this.itemsChange.emit(updatedItems);
     this.fieldValueChanged.emit({ itemId, fieldName, value });
+
+    const item = updatedItems.find(i => i.id === itemId);
+    const field = this.config().itemFields.find(f => f.fieldName === fieldName);
+    if (item && field) {
+      this.validateAsync(item, field);
+    }
   }
 
   /**
@@ -224,10 +762,207 @@ export class RepeaterFieldComponent {
   }
 
   /**
-   * Get the error message for a field in a specific item
+   * Get the error message for a field in a specific item.
+   * External errors (`item.errors`) are always shown; validation errors once the field
+   * is touched or `showErrors` is set.
    */
   getFieldError(item: RepeaterItem, fieldName: string): string | undefined {
-    return item.errors?.[fieldName];
+    const external = item.errors?.[fieldName];
+    if (external) return external;
+
+    const key = this.fieldKey(item, fieldName);
+    if (!this.showErrors() && !this.touchedFields().has(key)) return undefined;
+
+    return this.itemErrors().get(item.id)?.fields[fieldName] ?? this.asyncErrors()[key] ?? undefined;
+  }
+
+  /**
+   * Get the item-level error (shown once any of its fields is touched or `showErrors` is set)
+   */
+  getItemError(item: RepeaterItem): string | null {
+    const touched = this.touchedFields();
+    const shown = this.showErrors() || this.config().itemFields.some(field => touched.has(this.fieldKey(item, field.fieldName)));
+    return shown ? this.itemErrors().get(item.id)?.item ?? null : null;
+  }
+
+  /**
+   * Get collection errors (shown once any field is touched or `showErrors` is set)
+   */
+  getCollectionErrors(): string[] {
+    return this.showErrors() || this.touchedFields().size > 0 ? this.collectionErrors() : [];
+  }
+
+  /**
+   * Check if an item shows any error (e.g. to flag collapsed items)
+   */
+  hasItemErrors(item: RepeaterItem): boolean {
+    return !!this.getItemError(item) || this.config().itemFields.some(field => !!this.getFieldError(item, field.fieldName));
+  }
+
+  /**
+   * Check if a field has async validation in flight
+   */
+  isFieldPending(item: RepeaterItem, fieldName: string): boolean {
+    return this.pendingFields().has(this.fieldKey(item, fieldName));
+  }
+
+  /**
+   * Mark a field as touched
+   */
+  onFieldBlur(item: RepeaterItem, field: RepeaterFieldConfig): void {
+    const key = this.fieldKey(item, field.fieldName);
+    if (this.touchedFields().has(key)) return;
+
+    this.touchedFields.update(touched => new Set(touched).add(key));
+  }
+
+  // Validation
+
+  /**
+   * Check a value against a field's sync rules
+   */
+  private validateValue(field: RepeaterFieldConfig, value: any, values: Record<string, any>): string | null {
+    const validation = field.validation ?? {};
+    const empty = value === null || value === undefined || value === '' || (field.type === 'checkbox' && !value);
+
+    if (empty) {
+      return field.required ? `${field.label} is required` : null;
+    }
+
+    if (field.min !== undefined && Number(value) < field.min) {
+      return `${field.label} must be at least ${this.formatNumericValue(field.min, field.decimals || 0)}`;
+    }
+
+    if (field.max !== undefined && Number(value) > field.max) {
+      return `${field.label} must not exceed ${this.formatNumericValue(field.max, field.decimals || 0)}`;
+    }
+
+    if (validation.minLength !== undefined && String(value).length < validation.minLength) {
+      return `${field.label} must be at least ${validation.minLength} characters`;
+    }
+
+    if (validation.maxLength !== undefined && String(value).length > validation.maxLength) {
+      return `${field.label} must not exceed ${validation.maxLength} characters`;
+    }
+
+    if (validation.email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(String(value))) {
+      return `${field.label} must be a valid email address`;
+    }
+
+    if (validation.url) {
+      try {
+        new URL(String(value));
+      } catch {
+        return `${field.label} must be a valid URL`;
+      }
+    }
+
+    if (validation.pattern && !validation.pattern.test(String(value))) {
+      return `${field.label} format is invalid`;
+    }
+
+    return validation.custom?.(value, values) ?? null;
+  }
+
+  /**
+   * Schedule the async validators of all fields of an item
+   */
+  private validateItemAsync(item: RepeaterItem): void {
+    this.config().itemFields.forEach(field => this.validateAsync(item, field));
+  }
+
+  /**
+   * Schedule the async validator for a field, if it has one and the sync rules pass
+   */
+  private validateAsync(item: RepeaterItem, field: RepeaterFieldConfig): void {
+    const asyncValidator = field.validation?.asyncValidator;
+    if (!asyncValidator) return;
+
+    const key = this.fieldKey(item, field.fieldName);
+    const value = item.values[field.fieldName];
+    this.cancelAsyncValidation(key);
+
+    if (this.itemErrors().get(item.id)?.fields[field.fieldName] || value === null || value === undefined || value === '') {
+      this.setAsyncError(key, null);
+      return;
+    }
+
+    const cached = this.asyncResults.get(key);
+    if (cached && cached.value === value) {
+      this.setAsyncError(key, cached.error);
+      return;
+    }
+
+    this.setAsyncError(key, null);
+    this.setPending(key, true);
+    this.asyncTimers.set(key, setTimeout(async () => {
+      this.asyncTimers.delete(key);
+      const run = (this.asyncRuns.get(key) ?? 0) + 1;
+      this.asyncRuns.set(key, run);
+
+      let error: string | null;
+      try {
+        const result = asyncValidator(value, item.values);
+        error = await (isObservable(result) ? firstValueFrom(result) : result);
+      } catch {
+        error = `${field.label} could not be validated`;
+      }
+
+      // A newer value is being validated
+      if (this.asyncRuns.get(key) !== run) return;
+
+      this.asyncResults.set(key, { value, error });
+      this.setAsyncError(key, error);
+      this.setPending(key, false);
+    }, field.validation?.asyncDebounce ?? ASYNC_DEBOUNCE));
+  }
+
+  /**
+   * Cancel the async validators of a removed item
+   */
+  private cancelItemValidation(item: RepeaterItem): void {
+    this.config().itemFields.forEach(field => this.cancelAsyncValidation(this.fieldKey(item, field.fieldName)));
+  }
+
+  /**
+   * Cancel a scheduled or in-flight async validation
+   */
+  private cancelAsyncValidation(key: string): void {
+    clearTimeout(this.asyncTimers.get(key));
+    this.asyncTimers.delete(key);
+    this.asyncRuns.set(key, (this.asyncRuns.get(key) ?? 0) + 1);
+    this.setPending(key, false);
+  }
+
+  /**
+   * Set the async error for a field
+   */
+  private setAsyncError(key: string, error: string | null): void {
+    this.asyncErrors.update(errors => ({ ...errors, [key]: error }));
+  }
+
+  /**
+   * Mark a field as pending (async validation in flight)
+   */
+  private setPending(key: string, pending: boolean): void {
+    if (this.pendingFields().has(key) === pending) return;
+
+    this.pendingFields.update(fields => {
+      const newFields = new Set(fields);
+      if (pending) {
+        newFields.add(key);
+      } else {
+        newFields.delete(key);
+      }
+      return newFields;
+    });
+  }
+
+  /**
+   * Key of a field within an item
+   */
+  private fieldKey(item: RepeaterItem, fieldName: string): string {
+    return `${item.id}:${fieldName}`;
   }
 
   /**
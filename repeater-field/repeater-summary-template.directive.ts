@@ -0,0 +1,36 @@
+import { Directive, TemplateRef, inject } from '@angular/core';
+import type { RepeaterItem } from './repeater-field.component';
+
+/**
+ * Template context for a collapsed item summary
+ */
+export interface RepeaterSummaryContext {
+  /** The collapsed item */
+  $implicit: RepeaterItem;
+  /** Item index */
+  index: number;
+}
+
+/**
+ * Custom one-line summary for collapsed items (takes precedence over `summaryFn`)
+ *
+ * @example
+ * ```html
+ * <app-repeater-field [config]="loanConfig" [items]="loans()">
+ *   <ng-template appRepeaterSummary let-item>
+ *     {{ item.values.lender }} – {{ item.values.outstandingBalance | number }} kr
+ *   </ng-template>
+ * </app-repeater-field>
+ * ```
+ */
+@Directive({
+  selector: 'ng-template[appRepeaterSummary]',
+  standalone: true
+})
+export class RepeaterSummaryTemplateDirective {
+  readonly templateRef = inject<TemplateRef<RepeaterSummaryContext>>(TemplateRef);
+
+  static ngTemplateContextGuard(dir: RepeaterSummaryTemplateDirective, ctx: unknown): ctx is RepeaterSummaryContext {
+    return true;
+  }
+}
@@ -208,4 +208,37 @@ describe('SearchBoxComponent', () => {
     // Should emit immediately without debounce
     expect(component.search.emit).toHaveBeenCalledWith('');
   }));
+
+  it('should write value from the forms API', () => {
+    component.writeValue('from form');
+    fixture.detectChanges();
+
+    const input = fixture.nativeElement.querySelector('.search-input') as HTMLInputElement;
+    expect(input.value).toBe('from form');
+  });
+
+  it('should notify the forms API on input, clear and blur', () => {
+    const onChange = jasmine.createSpy('onChange');
+    const onTouched = jasmine.createSpy('onTouched');
+    component.registerOnChange(onChange);
+    component.registerOnTouched(onTouched);
+
+    const input = fixture.nativeElement.querySelector('.search-input') as HTMLInputElement;
+    input.value = 'query';
+    input.dispatchEvent(new Event('input'));
+    component.onClear();
+    input.dispatchEvent(new FocusEvent('blur'));
+
+    expect(onChange).toHaveBeenCalledWith('query');
+    expect(onChange).toHaveBeenCalledWith('');
+    expect(onTouched).toHaveBeenCalled();
+  });
+
+  it('should disable input via setDisabledState', () => {
+    component.setDisabledState(true);
+    fixture.detectChanges();
+
+    const input = fixture.nativeElement.querySelector('.search-input') as HTMLInputElement;
+    expect(input.disabled).toBe(true);
+  });
 });
@@ -1,14 +1,22 @@
-import { Component, input, output, model, computed, signal, effect } from '@angular/core';
+import { Component, input, output, model, computed, signal, effect, forwardRef } from '@angular/core';
 import { CommonModule, NgClass } from '@angular/common';
+import { ControlValueAccessor, NG_VALUE_ACCESSOR } from '@angular/forms';
 
 @Component({
   selector: 'app-search-box',
   standalone: true,
   imports: [CommonModule, NgClass],
   templateUrl: './search-box.component.html',
-  styleUrl: './search-box.component.css'
+  styleUrl: './search-box.component.css',
+  providers: [
+    {
+      provide: NG_VALUE_ACCESSOR,
+      useExisting: forwardRef(() => SearchBoxComponent),
+      multi: true
+    }
+  ]
 })
-export class SearchBoxComponent {
+export class SearchBoxComponent implements ControlValueAccessor {
   // Inputs
   value = model<string>(''); // Two-way binding
   placeholder = input<string>('Search...');
@@ -28,17 +36,24 @@ export class SearchBoxComponent {
   // Internal Signals
   private isFocused = signal<boolean>(false);
   private debounceTimer: any = null;
+  private formDisabled = signal<boolean>(false);
+
+  // Forms API callbacks
+  private onChange: (value: string) => void = () => {};
+  private onTouched: () => void = () => {};
 
   // Computed Properties
+  readonly isDisabled = computed(() => this.disabled() || this.formDisabled());
+
   readonly containerClasses = computed(() => {
     const classes: string[] = ['search-box-container'];
     if (this.isFocused()) classes.push('search-box-focused');
-    if (this.disabled()) classes.push('search-box-disabled');
+    if (this.isDisabled()) classes.push('search-box-disabled');
     return classes.join(' ');
   });
 
   readonly showClear = computed(() => {
-    return this.showClearButton() && this.value().length > 0 && !this.disabled();
+    return this.showClearButton() && this.value().length > 0 && !this.isDisabled();
   });
 
   // Effect for debounced search
@@ -68,6 +83,7 @@ export class SearchBoxComponent {
   onInput(event: Event): void {
     const input = event.target as HTMLInputElement;
     this.value.set(input.value);
+    this.onChange(input.value);
   }
 
   onFocus(): void {
@@ -77,11 +93,13 @@ export class SearchBoxComponent {
 
   onBlur(): void {
     this.isFocused.set(false);
+    this.onTouched();
     this.blurred.emit();
   }
 
   onClear(): void {
     this.value.set('');
+    this.onChange('');
     this.cleared.emit();
   }
 
@@ -91,4 +109,21 @@ export class SearchBoxComponent {
       (event.target as HTMLInputElement).blur();
     }
   }
+
+  // ControlValueAccessor
+  writeValue(value: string | null): void {
+    this.value.set(value ?? '');
+  }
+
+  registerOnChange(fn: (value: string) => void): void {
+    this.onChange = fn;
+  }
+
+  registerOnTouched(fn: () => void): void {
+    this.onTouched = fn;
+  }
+
+  setDisabledState(isDisabled: boolean): void {
+    this.formDisabled.set(isDisabled);
+  }
 }
@@ -257,4 +257,39 @@ describe('TextInputComponent', () => {
     fixture.detectChanges();
     expect(component.state()).toBe('error');
   });
+
+  it('should write value from the forms API', () => {
+    component.writeValue('from form');
+    fixture.detectChanges();
+
+    const input = fixture.nativeElement.querySelector('.text-input') as HTMLInputElement;
+    expect(input.value).toBe('from form');
+
+    component.writeValue(null);
+    expect(component.value()).toBe('');
+  });
+
+  it('should notify the forms API on input and blur', () => {
+    const onChange = jasmine.createSpy('onChange');
+    const onTouched = jasmine.createSpy('onTouched');
+    component.registerOnChange(onChange);
+    component.registerOnTouched(onTouched);
+
+    const input = fixture.nativeElement.querySelector('.text-input') as HTMLInputElement;
+    input.value = 'typed';
+    input.dispatchEvent(new Event('input'));
+    input.dispatchEvent(new FocusEvent('blur'));
+
+    expect(onChange).toHaveBeenCalledWith('typed');
+    expect(onTouched).toHaveBeenCalled();
+  });
+
+  it('should disable input via setDisabledState', () => {
+    component.setDisabledState(true);
+    fixture.detectChanges();
+
+    const input = fixture.nativeElement.querySelector('.text-input') as HTMLInputElement;
+    expect(input.disabled).toBe(true);
+    expect(component.containerClasses()).toContain('text-input-disabled');
+  });
 });
@@ -1,5 +1,6 @@
-import { Component, input, output, model, computed, signal } from '@angular/core';
+import { Component, input, output, model, computed, signal, forwardRef } from '@angular/core';
 import { CommonModule, NgClass } from '@angular/common';
+import { ControlValueAccessor, NG_VALUE_ACCESSOR } from '@angular/forms';
 
 export type TextInputType = 'text' | 'email' | 'password' | 'number' | 'tel' | 'url';
 export type TextInputState = 'default' | 'error' | 'success';
@@ -9,9 +10,16 @@ export type TextInputState = 'default' | 'error' | 'success';
   standalone: true,
   imports: [CommonModule, NgClass],
   templateUrl: './text-input.component.html',
-  styleUrl: './text-input.component.css'
+  styleUrl: './text-input.component.css',
+  providers: [
+    {
+      provide: NG_VALUE_ACCESSOR,
+      useExisting: forwardRef(() => TextInputComponent),
+      multi: true
+    }
+  ]
 })
-export class TextInputComponent {
+export class TextInputComponent implements ControlValueAccessor {
   // Inputs
   value = model<string>(''); // Two-way binding
   type = input<TextInputType>('text');
@@ -41,8 +49,15 @@ export class TextInputComponent {
   // Internal Signals
   private isFocused = signal<boolean>(false);
   private showPassword = signal<boolean>(false);
+  private formDisabled = signal<boolean>(false);
+
+  // Forms API callbacks
+  private onChange: (value: string) => void = () => {};
+  private onTouched: () => void = () => {};
 
   // Computed Properties
+  readonly isDisabled = computed(() => this.disabled() || this.formDisabled());
+
   readonly state = computed<TextInputState>(() => {
     if (this.error()) return 'error';
     if (this.value() && !this.error()) return 'success';
@@ -51,7 +66,7 @@ export class TextInputComponent {
 
   readonly containerClasses = computed(() => {
     const classes: string[] = ['text-input-container'];
-    if (this.disabled()) classes.push('text-input-disabled');
+    if (this.isDisabled()) classes.push('text-input-disabled');
     if (this.readonly()) classes.push('text-input-readonly');
     return classes.join(' ');
   });
@@ -83,7 +98,7 @@ export class TextInputComponent {
   });
 
   readonly showClear = computed(() => {
-    return this.showClearButton() && this.value().length > 0 && !this.disabled() && !this.readonly();
+    return this.showClearButton() && this.value().length > 0 && !this.isDisabled() && !this.readonly();
   });
 
   // Methods
@@ -91,6 +106,7 @@ export class TextInputComponent {
     const input = event.target as HTMLInputElement;
     this.value.set(input.value);
     this.valueChange.emit(input.value);
+    this.onChange(input.value);
   }
 
   onFocus(): void {
@@ -100,16 +116,35 @@ export class TextInputComponent {
 
   onBlur(): void {
     this.isFocused.set(false);
+    this.onTouched();
     this.blurred.emit();
   }
 
   onClear(): void {
     this.value.set('');
     this.valueChange.emit('');
+    this.onChange('');
     this.cleared.emit();
   }
 
   togglePasswordVisibility(): void {
     this.showPassword.update(show => !show);
   }
+
+  // ControlValueAccessor
+  writeValue(value: string | null): void {
+    this.value.set(value ?? '');
+  }
+
+  registerOnChange(fn: (value: string) => void): void {
+    this.onChange = fn;
+  }
+
+  registerOnTouched(fn: () => void): void {
+    this.onTouched = fn;
+  }
+
+  setDisabledState(isDisabled: boolean): void {
+    this.formDisabled.set(isDisabled);
+  }
 }
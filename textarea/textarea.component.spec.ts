@@ -165,4 +165,35 @@ describe('TextareaComponent', () => {
     fixture.detectChanges();
     expect(component.state()).toBe('error');
   });
+
+  it('should write value from the forms API', () => {
+    component.writeValue('from form');
+    fixture.detectChanges();
+
+    const textarea = fixture.nativeElement.querySelector('.textarea') as HTMLTextAreaElement;
+    expect(textarea.value).toBe('from form');
+  });
+
+  it('should notify the forms API on input and blur', () => {
+    const onChange = jasmine.createSpy('onChange');
+    const onTouched = jasmine.createSpy('onTouched');
+    component.registerOnChange(onChange);
+    component.registerOnTouched(onTouched);
+
+    const textarea = fixture.nativeElement.querySelector('.textarea') as HTMLTextAreaElement;
+    textarea.value = 'typed';
+    textarea.dispatchEvent(new Event('input'));
+    textarea.dispatchEvent(new FocusEvent('blur'));
+
+    expect(onChange).toHaveBeenCalledWith('typed');
+    expect(onTouched).toHaveBeenCalled();
+  });
+
+  it('should disable textarea via setDisabledState', () => {
+    component.setDisabledState(true);
+    fixture.detectChanges();
+
+    const textarea = fixture.nativeElement.querySelector('.textarea') as HTMLTextAreaElement;
+    expect(textarea.disabled).toBe(true);
+  });
 });
@@ -1,5 +1,6 @@
-import { Component, input, output, model, computed } from '@angular/core';
+import { Component, input, output, model, computed, signal, forwardRef } from '@angular/core';
 import { CommonModule, NgClass } from '@angular/common';
+import { ControlValueAccessor, NG_VALUE_ACCESSOR } from '@angular/forms';
 
 export type TextareaState = 'default' | 'error' | 'success';
 
@@ -8,9 +9,16 @@ export type TextareaState = 'default' | 'error' | 'success';
   standalone: true,
   imports: [CommonModule, NgClass],
   templateUrl: './textarea.component.html',
-  styleUrl: './textarea.component.css'
+  styleUrl: './textarea.component.css',
+  providers: [
+    {
+      provide: NG_VALUE_ACCESSOR,
+      useExisting: forwardRef(() => TextareaComponent),
+      multi: true
+    }
+  ]
 })
-export class TextareaComponent {
+export class TextareaComponent implements ControlValueAccessor {
   // Inputs
   value = model<string>(''); // Two-way binding
   label = input.required<string>();
@@ -32,7 +40,16 @@ export class TextareaComponent {
   focused = output<void>();
   blurred = output<void>();
 
+  // Internal Signals
+  private formDisabled = signal<boolean>(false);
+
+  // Forms API callbacks
+  private onChange: (value: string) => void = () => {};
+  private onTouched: () => void = () => {};
+
   // Computed Properties
+  readonly isDisabled = computed(() => this.disabled() || this.formDisabled());
+
   readonly state = computed<TextareaState>(() => {
     if (this.error()) return 'error';
     if (this.value() && !this.error()) return 'success';
@@ -41,7 +58,7 @@ export class TextareaComponent {
 
   readonly containerClasses = computed(() => {
     const classes: string[] = ['textarea-container'];
-    if (this.disabled()) classes.push('textarea-disabled');
+    if (this.isDisabled()) classes.push('textarea-disabled');
     if (this.readonly()) classes.push('textarea-readonly');
     return classes.join(' ');
   });
@@ -64,6 +81,7 @@ export class TextareaComponent {
     const textarea = event.target as HTMLTextAreaElement;
     this.value.set(textarea.value);
     this.valueChange.emit(textarea.value);
+    this.onChange(textarea.value);
   }
 
   onFocus(): void {
@@ -71,6 +89,24 @@ export class TextareaComponent {
   }
 
   onBlur(): void {
+    this.onTouched();
     this.blurred.emit();
   }
+
+  // ControlValueAccessor
+  writeValue(value: string | null): void {
+    this.value.set(value ?? '');
+  }
+
+  registerOnChange(fn: (value: string) => void): void {
+    this.onChange = fn;
+  }
+
+  registerOnTouched(fn: () => void): void {
+    this.onTouched = fn;
+  }
+
+  setDisabledState(isDisabled: boolean): void {
+    this.formDisabled.set(isDisabled);
+  }
 }
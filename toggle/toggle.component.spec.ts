@@ -262,4 +262,35 @@ describe('ToggleComponent', () => {
     expect(classes).toContain('toggle-checked');
     expect(classes).toContain('toggle-disabled');
   });
+
+  it('should write value from the forms API', () => {
+    component.writeValue(true);
+    expect(component.checked()).toBe(true);
+
+    component.writeValue(false);
+    expect(component.checked()).toBe(false);
+  });
+
+  it('should notify the forms API on toggle and blur', () => {
+    const onChange = jasmine.createSpy('onChange');
+    const onTouched = jasmine.createSpy('onTouched');
+    component.registerOnChange(onChange);
+    component.registerOnTouched(onTouched);
+
+    const input = fixture.nativeElement.querySelector('.toggle-input');
+    input.click();
+    input.dispatchEvent(new FocusEvent('blur'));
+
+    expect(onChange).toHaveBeenCalledWith(true);
+    expect(onTouched).toHaveBeenCalled();
+  });
+
+  it('should not toggle when disabled via setDisabledState', () => {
+    component.setDisabledState(true);
+    fixture.detectChanges();
+
+    const input = fixture.nativeElement.querySelector('.toggle-input');
+    expect(input.disabled).toBe(true);
+    expect(component.toggleClasses()).toContain('toggle-disabled');
+  });
 });
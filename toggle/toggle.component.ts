@@ -1,5 +1,6 @@
-import { Component, input, output, model, computed } from '@angular/core';
+import { Component, input, output, model, computed, signal, forwardRef } from '@angular/core';
 import { CommonModule, NgClass } from '@angular/common';
+import { ControlValueAccessor, NG_VALUE_ACCESSOR } from '@angular/forms';
 
 export type ToggleLabelPosition = 'left' | 'right';
 export type ToggleSize = 'sm' | 'md' | 'lg';
@@ -9,9 +10,16 @@ export type ToggleSize = 'sm' | 'md' | 'lg';
   standalone: true,
   imports: [CommonModule, NgClass],
   templateUrl: './toggle.component.html',
-  styleUrl: './toggle.component.css'
+  styleUrl: './toggle.component.css',
+  providers: [
+    {
+      provide: NG_VALUE_ACCESSOR,
+      useExisting: forwardRef(() => ToggleComponent),
+      multi: true
+    }
+  ]
 })
-export class ToggleComponent {
+export class ToggleComponent implements ControlValueAccessor {
   // Inputs
   checked = model<boolean>(false); // Two-way binding
   disabled = input<boolean>(false);
@@ -24,7 +32,16 @@ export class ToggleComponent {
   // Outputs
   changed = output<boolean>();
 
+  // Internal Signals
+  private formDisabled = signal<boolean>(false);
+
+  // Forms API callbacks
+  private onChange: (value: boolean) => void = () => {};
+  private onTouched: () => void = () => {};
+
   // Computed Properties
+  readonly isDisabled = computed(() => this.disabled() || this.formDisabled());
+
   readonly containerClasses = computed(() => {
     const classes: string[] = ['toggle-container'];
     classes.push(`toggle-size-${this.size()}`);
@@ -33,7 +50,7 @@ export class ToggleComponent {
       classes.push('toggle-label-left');
     }
 
-    if (this.disabled()) {
+    if (this.isDisabled()) {
       classes.push('toggle-disabled');
     }
 
@@ -48,7 +65,7 @@ export class ToggleComponent {
       classes.push('toggle-checked');
     }
 
-    if (this.disabled()) {
+    if (this.isDisabled()) {
       classes.push('toggle-disabled');
     }
 
@@ -61,7 +78,7 @@ export class ToggleComponent {
 
   // Methods
   onToggle(event: Event): void {
-    if (this.disabled()) {
+    if (this.isDisabled()) {
       event.preventDefault();
       return;
     }
@@ -69,10 +86,11 @@ export class ToggleComponent {
     const newValue = !this.checked();
     this.checked.set(newValue);
     this.changed.emit(newValue);
+    this.onChange(newValue);
   }
 
   onKeyDown(event: KeyboardEvent): void {
-    if (this.disabled()) {
+    if (this.isDisabled()) {
       return;
     }
 
@@ -81,6 +99,28 @@ export class ToggleComponent {
       const newValue = !this.checked();
       this.checked.set(newValue);
       this.changed.emit(newValue);
+      this.onChange(newValue);
     }
   }
+
+  onBlur(): void {
+    this.onTouched();
+  }
+
+  // ControlValueAccessor
+  writeValue(value: boolean | null): void {
+    this.checked.set(!!value);
+  }
+
+  registerOnChange(fn: (value: boolean) => void): void {
+    this.onChange = fn;
+  }
+
+  registerOnTouched(fn: () => void): void {
+    this.onTouched = fn;
+  }
+
+  setDisabledState(isDisabled: boolean): void {
+    this.formDisabled.set(isDisabled);
+  }
 }